@@ -1,328 +1,523 @@
-type KBItem = {
-  id: string;
-  title: string;
-  patterns: string[];
-  symptoms?: string;
-  rootCause?: string;
-  fixSteps: string[];
-  links?: { label: string; url: string }[];
-  tags?: string[];
+import { parseCarrierError } from "@/utils/errorParser";
+import { errorSignature, feedbackStats, loadFeedback, saveFeedback, type FeedbackVote } from "@/utils/feedback";
+import { evaluateHints, type HintRule } from "@/utils/hints";
+import { addAutoCapture } from "@/utils/history";
+import type { KBItem } from "@/utils/kb";
+import { compileKB, type CompiledKB } from "@/utils/kbCompiled";
+import { sha256Hex, validateHints, validateKBItems, validateKBManifest } from "@/utils/kbSchema";
+import { contextFromPage, matchKB, type MatchContext, type PageFacts } from "@/utils/matcher";
+import { backgroundRouter, sendToTab, type ErrorQuery, type KBSource, type KBStatus } from "@/utils/messages";
+import type { OrderContext } from "@/utils/orderContext";
+import { enqueueOutbound, flushOutbound, outboundStatus, takeOutboundExport } from "@/utils/outbound";
+import { flagTab, queuePopupAction } from "@/utils/popupAction";
+import { HIVE_PROFILE, patternOrigin } from "@/utils/profiles";
+import { loadSettings, watchSettings, type Settings } from "@/utils/settings";
+
+// The agent's home FC stands in when the page doesn't show one.
+function contextFromMessage(msg: PageFacts, settings: Settings): MatchContext {
+  return contextFromPage(msg, settings.homeFc);
+}
+
+// Last good remote copy. etag/lastModified belong to the manifest request.
+type CachedKB = {
+  url?: string;
+  updatedAt: string;
+  checkedAt: string;
+  items: KBItem[];
+  hints?: HintRule[];
+  version?: string;
+  sha256?: string;
+  hintsSha256?: string;
+  etag?: string;
+  lastModified?: string;
 };
 
-type CachedKB = { updatedAt: string; items: KBItem[] };
+type SyncError = { at: string; message: string };
+
+type KBState = {
+  items: KBItem[];
+  hints: HintRule[];
+  source: KBSource;
+  updatedAt?: string;
+  // When the remote KB was last asked for updates.
+  checkedAt?: string;
+  version?: string;
+  stale?: boolean;
+};
 
-function normalize(s: string) {
-  return s.toLowerCase().replace(/\s+/g, " ").trim();
-}
+const RETRY_AFTER_ERROR_MINUTES = 5;
 
-function scoreMatch(errorText: string, item: KBItem) {
-  const raw = errorText || "";
-  const t = normalize(raw);
+// Patterns, titles and the retrieval index are only compiled again when the KB itself changes.
+let compiledKB: { key: string; compiled: CompiledKB } | null = null;
 
-  for (const p of item.patterns || []) {
-    try {
-      const re = new RegExp(p, "i");
-      if (re.test(raw)) return 1.0;
-    } catch {}
-  }
+function compiledOf(kb: KBState) {
+  const key = `${kb.version ?? kb.source}:${kb.items.length}`;
+  if (compiledKB?.key !== key) compiledKB = { key, compiled: compileKB(kb.items) };
+  return compiledKB.compiled;
+}
 
-  const title = normalize(item.title || "");
-  if (title && t.includes(title)) return 0.85;
+// Settings as last read; the background's watchSettings keeps them current.
+let settingsNow: Promise<Settings> | null = null;
 
-  return 0.0;
+function currentSettings() {
+  settingsNow ??= loadSettings().catch((e) => {
+    settingsNow = null;
+    throw e;
+  });
+  return settingsNow;
 }
 
-async function loadBundledKB(): Promise<KBItem[]> {
-  const url = browser.runtime.getURL("errors.json");
-  const res = await fetch(url);
-  return await res.json();
+function matchOptions(settings: Settings, feedback: FeedbackVote[], kb: KBState) {
+  return {
+    limit: settings.maxResults,
+    minScore: settings.minScore,
+    fcBoost: settings.fcBoost,
+    feedback,
+    compiled: compiledOf(kb),
+  };
 }
 
-const REMOTE_KB_URL = ""; // TEMP disable remote to force bundled
-const CACHE_TTL_MINUTES = 30;
+async function loadBundledKB(): Promise<KBState> {
+  const [items, hints, manifest] = await Promise.all([
+    fetch(browser.runtime.getURL("/errors.json")).then((r) => r.json()),
+    fetch(browser.runtime.getURL("/hints.json"))
+      .then((r) => r.json())
+      .catch(() => []),
+    fetch(browser.runtime.getURL("/kb-manifest.json"))
+      .then((r) => r.json())
+      .catch(() => null),
+  ]);
+  return { items, hints, source: "bundled", version: manifest?.version };
+}
 
 async function loadCache(): Promise<CachedKB | null> {
   const r = await browser.storage.local.get("kb_cache");
-  return (r?.kb_cache as CachedKB) || null;
+  const c = r?.kb_cache as CachedKB | undefined;
+  return c?.items?.length ? c : null;
 }
 
-async function saveCache(items: KBItem[]) {
-  await browser.storage.local.set({
-    kb_cache: { updatedAt: new Date().toISOString(), items },
-  });
+async function saveCache(c: CachedKB) {
+  await browser.storage.local.set({ kb_cache: c });
 }
 
-function cacheFresh(c: CachedKB) {
-  const ageMs = Date.now() - new Date(c.updatedAt).getTime();
-  return ageMs < CACHE_TTL_MINUTES * 60 * 1000;
+async function loadSyncError(): Promise<SyncError | null> {
+  const r = await browser.storage.local.get("kb_sync_error");
+  return (r?.kb_sync_error as SyncError) || null;
 }
 
-async function loadRemote(): Promise<KBItem[] | null> {
-  const res = await fetch(REMOTE_KB_URL, { cache: "no-store" });
-  if (!res.ok) throw new Error(`Remote KB fetch failed: ${res.status}`);
-  return await res.json();
+async function saveSyncError(e: unknown) {
+  const err: SyncError = { at: new Date().toISOString(), message: String((e instanceof Error && e.message) || e) };
+  console.warn("KB sync failed:", err.message);
+  await browser.storage.local.set({ kb_sync_error: err });
 }
 
-async function getKB(): Promise<{ items: KBItem[]; source: string; updatedAt?: string }> {
-  const c = await loadCache();
-  if (c && c.items?.length && cacheFresh(c)) return { items: c.items, source: "cache", updatedAt: c.updatedAt };
+function minutesSince(iso: string | undefined) {
+  return iso ? (Date.now() - new Date(iso).getTime()) / 60000 : Infinity;
+}
+
+// Download a published file and check it against the manifest's hash.
+async function fetchVerified(url: string, sha256: string, what: string) {
+  const res = await fetch(url, { cache: "no-store" });
+  if (!res.ok) throw new Error(`Remote ${what} fetch failed: ${res.status}`);
+  const text = await res.text();
+  const hash = await sha256Hex(text);
+  if (hash !== sha256) throw new Error(`${what} integrity check failed: manifest ${sha256.slice(0, 12)}, payload ${hash.slice(0, 12)}`);
+  return text;
+}
 
-  try {
-    const remote = await loadRemote();
-    if (remote && remote.length) {
-      await saveCache(remote);
-      return { items: remote, source: "remote", updatedAt: new Date().toISOString() };
+/**
+ * Bring the cached KB up to date with the published manifest. Only downloads
+ * errors.json and hints.json when their hash changed, and only accepts them if
+ * the hash and schema both check out.
+ */
+async function syncRemote(url: string, c: CachedKB | null): Promise<CachedKB> {
+  const now = new Date().toISOString();
+  const headers: Record<string, string> = {};
+  if (c?.etag) headers["If-None-Match"] = c.etag;
+  if (c?.lastModified) headers["If-Modified-Since"] = c.lastModified;
+
+  const res = await fetch(new URL("kb-manifest.json", url).toString(), { cache: "no-store", headers });
+  if (res.status === 304 && c) return { ...c, checkedAt: now };
+  if (!res.ok) throw new Error(`KB manifest fetch failed: ${res.status}`);
+
+  const manifest = validateKBManifest(await res.json());
+  const validators = {
+    etag: res.headers.get("ETag") ?? undefined,
+    lastModified: res.headers.get("Last-Modified") ?? undefined,
+  };
+  const sameItems = !!c && c.sha256 === manifest.sha256;
+  const sameHints = !!c && c.hintsSha256 === manifest.hints?.sha256;
+  if (c && sameItems && sameHints) return { ...c, ...validators, checkedAt: now };
+
+  let items = c?.items ?? [];
+  if (!sameItems) {
+    items = validateKBItems(JSON.parse(await fetchVerified(url, manifest.sha256, "KB")));
+    if (items.length !== manifest.count) {
+      throw new Error(`KB entry count mismatch: manifest ${manifest.count}, payload ${items.length}`);
     }
-  } catch {}
+  }
 
-  const bundled = await loadBundledKB();
-  return { items: bundled, source: "bundled" };
+  // Manifests from before hints were published have no hints entry.
+  let hints = c?.hints ?? [];
+  if (!sameHints) {
+    hints = manifest.hints
+      ? validateHints(JSON.parse(await fetchVerified(new URL("hints.json", url).toString(), manifest.hints.sha256, "Hints")))
+      : [];
+  }
+
+  return {
+    url,
+    items,
+    hints,
+    version: manifest.version,
+    sha256: manifest.sha256,
+    hintsSha256: manifest.hints?.sha256,
+    ...validators,
+    updatedAt: now,
+    checkedAt: now,
+  };
 }
 
-export default defineBackground(() => {
-  browser.runtime.onMessage.addListener(async (msg) => {
-    if (msg?.type === "OLI_MATCH_ERROR") {
-      const errorText: string = msg.errorText ?? "";
-      const kb = await getKB();
-
-      const matches = kb.items
-        .map((item) => ({ item, score: scoreMatch(errorText, item) }))
-        .filter((x) => x.score > 0)
-        .sort((a, b) => b.score - a.score)
-        .slice(0, 3);
-
-      return { ok: true, matches, kbSource: kb.source, kbUpdatedAt: kb.updatedAt };
-    }
+function cacheState(c: CachedKB, stale?: boolean): KBState {
+  return {
+    items: c.items,
+    hints: c.hints ?? [],
+    source: "cache",
+    updatedAt: c.updatedAt,
+    checkedAt: c.checkedAt,
+    version: c.version,
+    stale,
+  };
+}
 
-    if (msg?.type === "OLI_KB_CLEAR_CACHE") {
-      await chrome.storage.local.remove("kb_cache");
-      return { ok: true };
-    }
+let syncing: Promise<KBState> | null = null;
 
-    if (msg?.type === "OLI_KB_STATUS") {
-      const kb = await getKB();
-      return { ok: true, kbSource: kb.source, kbUpdatedAt: kb.updatedAt, count: kb.items.length };
-    }
-  });
-});
+// The KB last handed out and until when it holds, so messages in between read no storage.
+let lastKB: { kb: KBState; url: string; until: number } | null = null;
 
-chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
-  if (msg && msg.type === "OLI_PING") {
-    sendResponse({ ok: true, pong: true });
-    return true;
-  }
-});
+async function getKB(opts: { force?: boolean } = {}): Promise<KBState> {
+  const { kbUrl, cacheTtlMinutes } = await currentSettings();
+  if (!opts.force && lastKB && lastKB.url === kbUrl && Date.now() < lastKB.until) return lastKB.kb;
 
+  const kb = await loadKB(kbUrl, cacheTtlMinutes, opts);
+  // A KB that couldn't be brought up to date is asked for again when a retry is due.
+  const retry = kb.stale || (!!kbUrl && kb.source === "bundled");
+  const from = !retry && kb.checkedAt ? new Date(kb.checkedAt).getTime() : Date.now();
+  lastKB = { kb, url: kbUrl, until: from + (retry ? RETRY_AFTER_ERROR_MINUTES : cacheTtlMinutes) * 60000 };
+  return kb;
+}
 
-chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
-  (async () => {
-    try {
-      if (msg?.type === "OLI_MATCH_ERROR_V2") {
-      function norm2(x: any){ return String(x ?? "").toLowerCase().replace(/\s+/g," ").trim(); }
-      function fcBoost(pageFc: string, item: any){
-        const a = norm2(pageFc);
-        if(!a) return 0;
-        const b = norm2((item as any)?.fc ?? (item as any)?.FC ?? "");
-        if(!b) return 0;
-        return b.includes(a) ? 0.20 : 0;
+async function loadKB(kbUrl: string, cacheTtlMinutes: number, opts: { force?: boolean }): Promise<KBState> {
+  const c = await loadCache();
+  // A cache from another KB URL is still the last good copy, but it can't answer for the new one.
+  const current = c && (c.url ?? kbUrl) === kbUrl ? c : null;
+  if (!opts.force && current && minutesSince(current.checkedAt) < cacheTtlMinutes) return cacheState(current);
+
+  if (kbUrl) {
+    const lastError = await loadSyncError();
+    const backingOff = minutesSince(lastError?.at) < RETRY_AFTER_ERROR_MINUTES;
+    if (opts.force || !backingOff) {
+      syncing ??= (async () => {
+        try {
+          const next = await syncRemote(kbUrl, current);
+          await saveCache(next);
+          await browser.storage.local.remove("kb_sync_error");
+          return {
+            items: next.items,
+            hints: next.hints ?? [],
+            source: "remote",
+            updatedAt: next.updatedAt,
+            checkedAt: next.checkedAt,
+            version: next.version,
+          } as KBState;
+        } finally {
+          syncing = null;
+        }
+      })();
+      try {
+        return await syncing;
+      } catch (e) {
+        await saveSyncError(e);
       }
-        const errorText = String(msg.errorText || "");
-      const fcFromPage = String((msg as any)?.fcFromPage || "");
-        const kb = await getKB();
+    }
+  }
 
-        const norm = (x: any) => String(x || "").toLowerCase().replace(/\s+/g, " ").trim();
+  // Never drop the last good copy because the network or the payload let us down.
+  if (c) return cacheState(c, true);
+  return await loadBundledKB();
+}
 
-        function normMsg(x: any) {
-          const t = norm(String(x ?? ""));
-          return t
-            .replace(/^["“”'’]+/, "")
-            .replace(/["“”'’]+$/, "")
-            .replace(/[!?.:;"”'’]+$/g, "")
-            .trim();
-        }
+async function kbStatus(kb: KBState): Promise<KBStatus> {
+  const syncError = await loadSyncError();
+  return {
+    kbSource: kb.source,
+    kbUpdatedAt: kb.updatedAt,
+    kbVersion: kb.version,
+    kbStale: !!kb.stale,
+    kbSyncError: syncError?.message ?? null,
+    kbSyncErrorAt: syncError?.at ?? null,
+    count: kb.items.length,
+  };
+}
 
+const OUTBOUND_ALARM = "oli-outbound-retry";
 
-        const eNorm = norm(errorText);
+async function flushOutboundNow(force = false) {
+  await flushOutbound(await loadSettings(), { force }).catch((e) => console.warn("Outbound flush failed:", e));
+}
 
-        const isSpecificTitle = (t: string) => {
-          const tn = norm(t);
-          if (!tn) return false;
-          const toks = tn.split(/[^a-z0-9_]+/g).filter(Boolean).flatMap(x => x.split("_").filter(Boolean));
-          return tn.length >= 18 || toks.length >= 3; // guard against tiny generic titles
-        };
+const PROFILE_SCRIPT_ID = "oli-capture-profiles";
+const CAPTURE_SCRIPT = "content-scripts/capture.js";
+
+/**
+ * Register the capture script on the sites of the user's capture profiles that
+ * host access was granted for. Hive FC is declared in the manifest.
+ */
+async function registerProfileScripts(settings: Settings) {
+  const patterns: string[] = [];
+  for (const prof of settings.captureProfiles) {
+    for (const p of prof.urlPatterns) {
+      const origin = patternOrigin(p);
+      if (!origin || HIVE_PROFILE.urlPatterns.includes(p) || patterns.includes(p)) continue;
+      if (await browser.permissions.contains({ origins: [origin] })) patterns.push(p);
+    }
+  }
+  await browser.scripting.unregisterContentScripts({ ids: [PROFILE_SCRIPT_ID] }).catch(() => {});
+  if (!patterns.length) return;
+  await browser.scripting.registerContentScripts([
+    { id: PROFILE_SCRIPT_ID, matches: patterns, js: [CAPTURE_SCRIPT], runAt: "document_idle" },
+  ]);
+}
 
-        const eNorm2 = norm(errorText);
-
-        const exactHits = kb.items
-          .filter((it: any) => {
-            const tNorm = norm(it?.title || "");
-            if (!tNorm || !eNorm2) return false;
-            return tNorm === eNorm2 || tNorm.includes(eNorm2) || eNorm2.includes(tNorm);
-          })
-          .map((it: any) => ({ item: it, score: 1.0 }));
-
-        const keywords = [
-          "house_number","housenumber","street","address",
-          "postal","postcode","zip",
-          "city","state","province",
-          "email","phone",
-          "weight","dimension","length","width","height",
-          "sendcloud","label","carrier","service",
-          "hs","hscode","customs","ddp","dap","cod",
-          "country","vat","eori"
-        ];
-
-        const normTokenize = (txt: string) =>
-          norm(txt)
-            .split(/[^a-z0-9_]+/g)
-            .filter(Boolean)
-            .flatMap(t => t.split("_").filter(Boolean));
-
-        
-        // OLI_PRIMARY_ERROR_V2
-        // Extract the human error message for matching (prefer quoted sentence-like strings)
-        const extractPrimary = (raw: string) => {
-          const t = String(raw || "").trim();
-
-          // Prefer quoted strings that look like a real message (contain spaces)
-          const quoted = Array.from(t.matchAll(/"([^"]{4,300})"/g)).map(m => (m[1] || "").trim());
-          const human = quoted.filter(q => q.includes(" ") && !/^\w+_\w+/.test(q));
-          if (human.length) {
-            human.sort((a,b) => b.length - a.length);
-            return human[0];
-          }
-
-          // Fallback: strip common Sendcloud prefix and metadata
-          return t
-            .replace(/^sendcloud\s+error\s+occurred\s*:\s*/i, "")
-            .replace(/,\s*uncategorized\s*:\s*".*?"\s*$/i, "")
-            .replace(/^non_field_errors\s*:\s*/i, "")
-            .replace(/^to_service_point\s*:\s*/i, "")
-            .trim();
-        };
+// One registration at a time; settings and permission changes can arrive together.
+let profileSync = Promise.resolve();
+function syncProfileScripts() {
+  profileSync = profileSync
+    .then(async () => registerProfileScripts(await loadSettings()))
+    .catch((e) => console.warn("Could not register capture profiles:", e));
+}
 
-        const primaryText = extractPrimary(errorText);
-        const primaryNorm = norm(primaryText);
-
-const eTokens = new Set(normTokenize(primaryText || errorText));
-
-        // OLI_TOKEN_OVERLAP_GATE_V2
-        // Hard gate to prevent unrelated matches:
-        // require 2+ token overlaps, or 1 overlap if it's a strong token.
-        const stopTokens = new Set([
-          "the","a","an","and","or","to","of","in","on","for","with","without",
-          "please","we","cannot","can","not","is","are","be","this","that",
-          "error","errors","message","messages"
-        ]);
-
-        const strongSingles = new Set([
-          "sendcloud","consignee","to_service_point","service_point","house","number",
-          "house_number","postal","postcode","city","email","phone","weight",
-          "customs","eori","gls","dpd","ups","dhl","colissimo","mondial","relay","amazon"
-        ]);
-
-        const tokenSet = (txt: string) => {
-          const toks = normTokenize(txt).map(t => t.toLowerCase());
-          return new Set(toks.filter(t => t && t.length >= 3 && !stopTokens.has(t) && !/^\d+$/.test(t)));
-        };
+// Count of errors the content script spotted on its own that have a match; zero clears it.
+async function setBadge(tabId: number | undefined, count: number) {
+  if (tabId == null) return;
+  await browser.action.setBadgeText({ tabId, text: count ? String(count) : "" });
+  if (count) await browser.action.setBadgeBackgroundColor({ tabId, color: "#d93025" });
+}
 
-        const eTokSet = tokenSet(errorText);
-
-
-        const scored = kb.items.map((it: any) => {
-          const title = String(it?.title || "");
-          const tNorm = normMsg(title);
-
-          // Token overlap gate: drop items with no meaningful overlap
-          const hay = title + " " + (Array.isArray(it?.patterns) ? it.patterns.join(" ") : "");
-          const hTokSet = tokenSet(hay);
-          let overlap = 0;
-          let oneStrong = false;
-          for (const t of eTokSet) {
-            if (hTokSet.has(t)) {
-              overlap++;
-              if (strongSingles.has(t) || t.length >= 8) oneStrong = true;
-            }
-          }
-          // If no overlap, never match this entry
-          if (overlap === 0) return { item: it, score: 0 };
-          // If only one overlap, require it to be strong
-          if (overlap === 1 && !oneStrong) return { item: it, score: 0 };
-
-          let sc = 0;
-
-          // Regex patterns get strong score
-          const patterns: string[] = Array.isArray(it?.patterns) ? it.patterns : [];
-          for (const p of patterns) {
-            const pp = String(p ?? "").trim();
-            if (!pp) continue;
-            if (pp === ".*" || pp === "^.*$") continue;
-            try {
-              if (new RegExp(pp, "i").test(primaryText || errorText)) {
-                sc = Math.max(sc, 0.95);
-                break;
-              }
-            } catch {}
-          }
-
-          // Title containment (medium-strong)
-          if (tNorm && (primaryNorm || norm(errorText)).includes(tNorm)) {
-            sc = Math.max(sc, 0.85);
-          }
-
-          // Keyword overlap (fallback)
-          const tTokens = new Set(normTokenize(title));
-          let hit = 0;
-          for (const k of keywords) {
-            const kk = k.replace(/_/g, "");
-            const eHit = eTokens.has(k) || eTokens.has(kk);
-            const tHit = tTokens.has(k) || tTokens.has(kk);
-            if (eHit && tHit) hit++;
-          }
-          if (hit > 0) {
-            sc = Math.max(sc, 0.55 + Math.min(0.35, hit * 0.08));
-          }
+// Top matches per row sent back to the triage page; the page groups by the first.
+const BATCH_MATCHES = 3;
 
-          return {
-  item: it,
-  score: (() => {
-    const base = sc;
-    if (!(base > 0)) return base;
-    const pageFc = String((msg as any)?.fcFromPage || "").toLowerCase().trim();
-    if (!pageFc) return base;
-    const itFc = String((it as any)?.fc ?? (it as any)?.FC ?? "").toLowerCase().trim();
-    const boost = (itFc && itFc.includes(pageFc)) ? 0.12 : 0;
-    return Math.min(1, base + boost);
-  })()
-};
-        });
+async function match(msg: ErrorQuery) {
+  const [kb, settings, votes] = await Promise.all([getKB(), currentSettings(), loadFeedback()]);
+  const context = contextFromMessage(msg, settings);
+  const res = matchKB(kb.items, { errorText: msg.errorText, context }, matchOptions(settings, votes, kb));
+  return { kb, settings, res, context };
+}
 
-        const fuzzy = scored
-          .filter((x: any) => x.score > 0)
-          .sort((a: any, b: any) => b.score - a.score)
-          .slice(0, 5);
+/**
+ * What the shortcut and the context menu do where the browser won't open the
+ * popup for them: capture the tab here and show the top fix in the page's
+ * inline panel, or on the toolbar button when the page has no capture script.
+ */
+async function captureInBackground(tabId: number, selectionText?: string) {
+  const page = await sendToTab(tabId, "OLI_CAPTURE_ERROR_TEXT").catch(() => null);
+  // As in the popup: the page's top snippet (a live selection ranks first), else the menu's selection.
+  const errorText = page?.errorText || (selectionText ?? "").replace(/\s+/g, " ").trim();
+  if (!errorText) {
+    await flagTab(tabId, "OLI found no error on this page. Select the error text and use \"Match this error with OLI\".");
+    return;
+  }
+
+  const { res } = await match({
+    errorText,
+    fcFromPage: page?.fcFromPage,
+    countryFromPage: page?.countryFromPage,
+    shippingMethodFromPage: page?.shippingMethodFromPage,
+    order: page?.order,
+  });
+  const top = res.matches[0];
+  if (!top) {
+    await flagTab(tabId, "OLI found no KB entry for this error. Open OLI to search the KB.");
+    return;
+  }
+  const shown =
+    !!page &&
+    (await sendToTab(tabId, "OLI_SHOW_MATCHES", { matches: res.matches }).then(
+      () => true,
+      () => false
+    ));
+  if (!shown) await flagTab(tabId, `OLI: ${top.item.title} (${Math.round(top.score * 100)}%). Open OLI for the fix steps.`);
+}
 
-        sendResponse({
-          ok: true,
-          matches: exactHits.length ? exactHits : fuzzy,
+// Both open the popup, which captures the tab as if "Capture and match" was clicked.
+async function runCaptureAction(tabId: number | undefined, selectionText?: string) {
+  if (await queuePopupAction({ type: "capture", selectionText })) return;
+  tabId ??= (await browser.tabs.query({ active: true, currentWindow: true }))[0]?.id;
+  if (tabId == null) return;
+  await captureInBackground(tabId, selectionText).catch((e) =>
+    flagTab(tabId, "OLI could not capture this page: " + String(e?.message || e))
+  );
+}
+
+const CAPTURE_COMMAND = "capture-and-match";
+const MATCH_SELECTION_MENU = "oli-match-selection";
+
+export default defineBackground(() => {
+  // Retries survive service worker restarts: the queue is in storage and the alarm wakes us up.
+  browser.alarms.create(OUTBOUND_ALARM, { periodInMinutes: 1 });
+  browser.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === OUTBOUND_ALARM) flushOutboundNow();
+  });
+  watchSettings((s) => {
+    settingsNow = Promise.resolve(s);
+    flushOutboundNow(true);
+    syncProfileScripts();
+  });
+
+  syncProfileScripts();
+  browser.permissions.onAdded.addListener(syncProfileScripts);
+  browser.permissions.onRemoved.addListener(syncProfileScripts);
+
+  browser.commands.onCommand.addListener((command, tab) => {
+    if (command === CAPTURE_COMMAND) runCaptureAction(tab?.id);
+  });
+  browser.runtime.onInstalled.addListener(() => {
+    browser.contextMenus.create({ id: MATCH_SELECTION_MENU, title: "Match this error with OLI", contexts: ["selection"] });
+  });
+  browser.contextMenus.onClicked.addListener((info, tab) => {
+    if (info.menuItemId === MATCH_SELECTION_MENU) runCaptureAction(tab?.id, info.selectionText);
+  });
+
+  browser.runtime.onMessage.addListener(
+    backgroundRouter({
+      async OLI_MATCH_ERROR(msg) {
+        const { kb, settings, res, context } = await match(msg);
+        return {
+          matches: res.matches,
+          errors: res.errors,
+          hints: evaluateHints(kb.hints, { errorText: msg.errorText, context, commonDestinations: settings.commonDestinations }),
           kbSource: kb.source,
           kbUpdatedAt: kb.updatedAt,
-          debugExactCount: exactHits.length,
-          debugExactTitles: exactHits.slice(0, 10).map((x: any) => x.item?.title || ""),
-          debugNormError: (typeof primaryText !== 'undefined' ? normMsg(primaryText) : eNorm).slice(0, 220)
+          kbVersion: kb.version,
+          debugExactCount: res.exactCount,
+          debugExactTitles: res.exactTitles,
+          debugNormError: res.normError,
+          language: res.language,
+        };
+      },
+
+      // Bulk triage: the KB, settings and votes are read once for the whole list.
+      async OLI_MATCH_BATCH(msg) {
+        const [kb, settings, votes] = await Promise.all([getKB(), currentSettings(), loadFeedback()]);
+        const opts = { ...matchOptions(settings, votes, kb), limit: BATCH_MATCHES };
+        const results = msg.queries.map((q) => {
+          const errorText = String(q?.errorText ?? "");
+          if (!errorText) return { matches: [] };
+          const { matches } = matchKB(kb.items, { errorText, context: contextFromMessage(q, settings) }, opts);
+          return { matches };
         });
-        return;
-      }
+        return { results, kbSource: kb.source, kbVersion: kb.version };
+      },
+
+      // The badge counts the detected errors that have a match; each new one is saved to the history.
+      async OLI_PAGE_ERROR(msg, sender) {
+        const tabId = sender.tab?.id;
+        const texts = msg.errorTexts.map((t) => String(t ?? ""));
+        if (!texts.some(Boolean)) {
+          await setBadge(tabId, 0);
+          return { results: [] };
+        }
 
-      if (msg?.type === "OLI_KB_STATUS_V2") {
+        const [kb, settings, votes] = await Promise.all([getKB(), currentSettings(), loadFeedback()]);
+        const context = contextFromMessage(msg, settings);
+        const opts = matchOptions(settings, votes, kb);
+        const results = texts.map((errorText) => {
+          if (!errorText) return { matches: [], errors: [], hints: [] };
+          const res = matchKB(kb.items, { errorText, context }, opts);
+          return {
+            matches: res.matches,
+            errors: res.errors,
+            hints: evaluateHints(kb.hints, { errorText, context, commonDestinations: settings.commonDestinations }),
+          };
+        });
+        await setBadge(tabId, results.filter((r) => r.matches.length).length);
+
+        for (const [i, errorText] of texts.entries()) {
+          if (!errorText) continue;
+          await addAutoCapture({
+            errorText,
+            url: sender.tab?.url ?? "",
+            pageTitle: sender.tab?.title ?? "",
+            fc: msg.fcFromPage ?? null,
+            country: msg.countryFromPage ?? null,
+            shippingMethod: msg.shippingMethodFromPage ?? null,
+            order: (msg.order as OrderContext | null) ?? null,
+            matches: results[i].matches.map((m) => ({ id: m.item.id, title: m.item.title, score: m.score })),
+          }).catch((e) => console.warn("Could not save capture history:", e));
+        }
+        return { results };
+      },
+
+      async OLI_FEEDBACK(msg) {
+        const errors = parseCarrierError(msg.errorText);
+        const voted = msg.errorIndex != null && errors[msg.errorIndex] ? [errors[msg.errorIndex]] : errors;
+        const vote = await saveFeedback({
+          id: msg.voteId || crypto.randomUUID(),
+          at: new Date().toISOString(),
+          kbId: msg.kbId,
+          kbTitle: msg.kbTitle ?? "",
+          vote: msg.vote > 0 ? 1 : -1,
+          signatures: voted.map(errorSignature),
+          errorText: msg.errorText,
+          fc: msg.fcFromPage ?? null,
+          country: msg.countryFromPage ?? null,
+          shippingMethod: msg.shippingMethodFromPage ?? null,
+        });
+        return { voteId: vote.id };
+      },
+
+      async OLI_FEEDBACK_STATS() {
+        return { stats: feedbackStats(await loadFeedback()) };
+      },
+
+      async OLI_OUTBOUND_SEND(msg) {
+        await enqueueOutbound(msg.payload);
+        await flushOutboundNow();
+        return await outboundStatus(await loadSettings());
+      },
+
+      async OLI_OUTBOUND_STATUS() {
+        return await outboundStatus(await loadSettings());
+      },
+
+      async OLI_OUTBOUND_FLUSH() {
+        await flushOutboundNow(true);
+        return await outboundStatus(await loadSettings());
+      },
+
+      async OLI_OUTBOUND_EXPORT() {
+        return { ndjson: await takeOutboundExport() };
+      },
+
+      // Every entry of the KB in use, for the KB editor.
+      async OLI_KB_ITEMS() {
         const kb = await getKB();
-        sendResponse({ ok: true, kbSource: kb.source, kbUpdatedAt: kb.updatedAt, count: kb.items.length });
-        return;
-      }
-    } catch (e: any) {
-      sendResponse({ ok: false, error: String(e?.message || e) });
-    }
-  })();
-
-  return true;
+        return { items: kb.items, kbSource: kb.source, kbVersion: kb.version, kbUpdatedAt: kb.updatedAt };
+      },
+
+      async OLI_KB_STATUS() {
+        return await kbStatus(await getKB());
+      },
+
+      async OLI_KB_REFRESH() {
+        return await kbStatus(await getKB({ force: true }));
+      },
+
+      async OLI_KB_CLEAR_CACHE() {
+        await browser.storage.local.remove("kb_cache");
+        lastKB = null;
+        return {};
+      },
+    })
+  );
 });
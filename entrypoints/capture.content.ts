@@ -1,32 +1,74 @@
+import { orderIdFromUrl } from "@/utils/history";
+import type { KBItem } from "@/utils/kb";
+import { localize, type Language } from "@/utils/language";
+import { sendToBackground, tabRouter, type CapturedFacts } from "@/utils/messages";
+import { orderContextFrom } from "@/utils/orderContext";
+import { DEFAULT_ERROR_SELECTORS, profileFor, type CaptureProfile, type FieldExtractor } from "@/utils/profiles";
+import { loadSettings, watchSettings, type Settings } from "@/utils/settings";
+
 function normalize(s: string) {
   return s.replace(/\s+/g, " ").trim();
 }
 
+const PANEL_ID = "oli-inline-panel";
+
+// Profile for this page; built-in ones only until settings have loaded.
+let profile: CaptureProfile = profileFor(location.href, []);
+// Language the panel shows fix steps in (options page).
+let language: Language = "en";
+
+// Our own panel must never be read back as page text.
+function isOurs(el: Element) {
+  return !!el.closest(`#${PANEL_ID}`);
+}
+
 function isVisible(el: Element) {
   const h = el as HTMLElement;
   const style = window.getComputedStyle(h);
   return style.display !== "none" && style.visibility !== "hidden";
 }
 
-function getSelectionText(): string | null {
-  const t = window.getSelection()?.toString() || "";
-  const n = normalize(t);
-  return n.length ? n : null;
+// Where a capture's text came from, in the order capture ranks them.
+type SnippetSource = "selection" | "issue_note" | "alert" | "body_line";
+
+type Candidate = { text: string; source: SnippetSource; el: Element | null };
+
+const MAX_SNIPPETS = 5;
+const HIGHLIGHT_MS = 2000;
+
+function getSelectionCandidate(): Candidate | null {
+  const sel = window.getSelection();
+  const n = normalize(sel?.toString() || "");
+  return n.length ? { text: n, source: "selection", el: sel?.anchorNode?.parentElement ?? null } : null;
+}
+
+// The profile's error labels, e.g. Hive's "ISSUE NOTE". Runs on every scan, so the
+// text is checked first and the layout-reading isVisible only on the few left.
+function findIssueNoteLabels(): Element[] {
+  const labels = profile.errorLabels ?? [];
+  if (!labels.length) return [];
+  return Array.from(document.querySelectorAll("body *"))
+    .filter((el) => labels.includes(normalize(el.textContent || "").toUpperCase()))
+    .filter((el) => !isOurs(el))
+    .filter(isVisible);
 }
 
-function findIssueNoteMessage(): string | null {
-  const labelEls = Array.from(document.querySelectorAll("body *"))
-    .filter(isVisible)
-    .filter((el) => normalize(el.textContent || "").toUpperCase() === "ISSUE NOTE");
+// Texts next to each error label; the first one is what a single capture used to return.
+function issueNoteCandidates(): Candidate[] {
+  const out: Candidate[] = [];
+  const labels = profile.errorLabels ?? [];
 
-  for (const labelEl of labelEls) {
+  for (const labelEl of findIssueNoteLabels()) {
     const parent = labelEl.parentElement;
     if (parent) {
       const siblings = Array.from(parent.children);
-      const idx = siblings.indexOf(labelEl as Element);
-      for (let i = idx + 1; i < siblings.length; i++) {
-        const t = normalize(siblings[i].textContent || "");
-        if (t.length > 20) return t;
+      const found = siblings
+        .slice(siblings.indexOf(labelEl) + 1)
+        .map((el) => ({ text: normalize(el.textContent || ""), source: "issue_note" as const, el }))
+        .filter((c) => c.text.length > 20);
+      if (found.length) {
+        out.push(...found);
+        continue;
       }
     }
 
@@ -39,58 +81,154 @@ function findIssueNoteMessage(): string | null {
     if (!container) continue;
 
     const candidates = Array.from(container.querySelectorAll("p, pre, li, span, div"))
+      .filter((el) => !isOurs(el))
       .filter(isVisible)
-      .map((el) => normalize(el.textContent || ""))
-      .filter((t) => t.length > 20)
-      .filter((t) => t.toUpperCase() !== "ISSUE NOTE");
+      .map((el) => ({ text: normalize(el.textContent || ""), source: "issue_note" as const, el }))
+      .filter((c) => c.text.length > 20)
+      .filter((c) => !labels.includes(c.text.toUpperCase()));
 
-    const strong = candidates.find((t) => /error|failed|invalid|exception|not available|cannot/i.test(t));
-    if (strong) return strong;
-
-    if (candidates.length) {
-      candidates.sort((a, b) => b.length - a.length);
-      return candidates[0];
+    const strong = candidates.filter((c) => /error|failed|invalid|exception|not available|cannot/i.test(c.text));
+    if (strong.length) {
+      out.push(...strong);
+    } else if (candidates.length) {
+      out.push(candidates.reduce((a, b) => (b.text.length > a.text.length ? b : a)));
     }
   }
 
-  return null;
+  return out;
+}
+
+// Alerts and toasts only; the page-text fallback is too noisy to run on every change.
+function alertCandidates(): Candidate[] {
+  const selectors = profile.errorSelectors ?? DEFAULT_ERROR_SELECTORS;
+
+  return selectors.flatMap((sel) =>
+    Array.from(safeQueryAll(sel))
+      .filter((el) => !isOurs(el) && isVisible(el))
+      .map((el) => ({ text: normalize(el.textContent || ""), source: "alert" as const, el }))
+      .filter((c) => c.text.length > 10)
+  );
+}
+
+// Selectors come from user-edited profiles; a typo must not break capture.
+function safeQueryAll(sel: string) {
+  try {
+    return document.querySelectorAll(sel);
+  } catch {
+    return [];
+  }
 }
 
-function findGenericErrorMessage(): string | null {
-  const selectors = [
-    "[role='alert']",
-    "[aria-live='assertive']",
-    ".toast, .toaster, .notification, .alert",
-    ".error, .error-message, .error-banner, .error-summary",
-    "[data-testid*=error], [class*=error], [id*=error]"
-  ];
-
-  for (const sel of selectors) {
-    const el = document.querySelector(sel);
-    if (!el || !isVisible(el)) continue;
-    const t = normalize(el.textContent || "");
-    if (t.length > 10) return t;
+// Page text without our panel: innerText leaves out hidden elements, and the
+// panel is shown again before the browser paints.
+function pageText() {
+  const panel = document.getElementById(PANEL_ID);
+  if (!panel) return document.body?.innerText || "";
+  const display = panel.style.display;
+  panel.style.display = "none";
+  try {
+    return document.body?.innerText || "";
+  } finally {
+    panel.style.display = display;
   }
+}
 
-  const text = document.body?.innerText || "";
-  const lines = text
+// Error-looking lines of the page text, longest first. Their element is looked up only if kept.
+function bodyLineCandidates(): Candidate[] {
+  const text = pageText();
+  return text
     .split("\n")
     .map((l) => normalize(l))
-    .filter((l) => l.length > 20);
+    .filter((l) => l.length > 20)
+    .filter((l) => /error|failed|invalid|not available|cannot|exception/i.test(l))
+    .sort((a, b) => b.length - a.length)
+    .map((l) => ({ text: l, source: "body_line" as const, el: null }));
+}
 
-  const errorLines = lines.filter((l) => /error|failed|invalid|not available|cannot|exception/i.test(l));
-  if (errorLines.length) {
-    errorLines.sort((a, b) => b.length - a.length);
-    return errorLines[0];
+// Deepest element whose text contains the snippet.
+function locateText(text: string): Element | null {
+  let found: Element | null = null;
+  let cur: Element | null = document.body;
+  while (cur) {
+    const child: Element | undefined = Array.from(cur.children).find(
+      (c) => !isOurs(c) && normalize((c as HTMLElement).innerText ?? c.textContent ?? "").includes(text)
+    );
+    if (!child) break;
+    found = cur = child;
   }
+  return found;
+}
 
-  return null;
+// Short CSS-like path such as "section.order > div.note > p", to tell snippets apart.
+function domPath(el: Element, depth = 3) {
+  const parts: string[] = [];
+  for (let e: Element | null = el; e && e !== document.body && parts.length < depth; e = e.parentElement) {
+    let part = e.tagName.toLowerCase();
+    if (e.id) part += "#" + e.id;
+    else if (e.classList.length) part += "." + Array.from(e.classList).slice(0, 2).join(".");
+    parts.unshift(part);
+  }
+  return parts.join(" > ");
+}
+
+// Elements of the last capture's snippets, for OLI_HIGHLIGHT_SNIPPET.
+const snippetEls = new Map<string, Element>();
+
+// Candidates in rank order, without ones that contain or are contained in one kept before.
+function distinctCandidates(all: Candidate[]) {
+  const kept: Candidate[] = [];
+  for (const c of all) {
+    const key = c.text.toLowerCase();
+    if (kept.some((k) => k.text.toLowerCase().includes(key) || key.includes(k.text.toLowerCase()))) continue;
+    kept.push(c);
+    if (kept.length >= MAX_SNIPPETS) break;
+  }
+  return kept;
+}
+
+/**
+ * Every distinct error on the page, ranked selection, Issue Note, alerts, then
+ * error-looking page lines. A snippet contained in a higher-ranked one (or
+ * containing it) is the same error and is dropped.
+ */
+function collectSnippets() {
+  const selection = getSelectionCandidate();
+  const kept = distinctCandidates([
+    ...(selection ? [selection] : []),
+    ...issueNoteCandidates(),
+    ...alertCandidates(),
+    ...bodyLineCandidates(),
+  ]);
+  snippetEls.clear();
+  return kept.map((c, i) => {
+    const id = `s${i}`;
+    const el = c.el ?? locateText(c.text);
+    if (el) snippetEls.set(id, el);
+    return { id, text: c.text, source: c.source, location: el ? domPath(el) : "" };
+  });
 }
 
+// Scroll to a captured snippet and outline it briefly; looks it up again if the page re-rendered.
+function highlightSnippet(id: string, text: string) {
+  let target = snippetEls.get(id);
+  if (!target?.isConnected) target = locateText(text) ?? undefined;
+  if (!target) return false;
+
+  const h = target as HTMLElement;
+  const prev = { outline: h.style.outline, offset: h.style.outlineOffset };
+  h.scrollIntoView({ behavior: "smooth", block: "center" });
+  h.style.outline = "3px solid #FFDF39";
+  h.style.outlineOffset = "2px";
+  setTimeout(() => {
+    h.style.outline = prev.outline;
+    h.style.outlineOffset = prev.offset;
+  }, HIGHLIGHT_MS);
+  return true;
+}
 
 function extractUnderLabelFromInnerText(label: string): string | null {
   try {
-    const txt = (document.body?.innerText || document.body?.textContent || "");
+    const txt = pageText() || document.body?.textContent || "";
     const lines = txt.split(/\r?\n/).map(x => x.trim()).filter(Boolean);
     const want = label.trim().toUpperCase();
     for (let i = 0; i < lines.length; i++) {
@@ -106,65 +244,209 @@ function extractUnderLabelFromInnerText(label: string): string | null {
   return null;
 }
 
-function detectFcFromPage(): string | null {
-  const raw =
-    extractUnderLabelFromInnerText("FULFILLMENT CENTER") ||
-    extractUnderLabelFromInnerText("FULFILMENT CENTRE");
-  if (!raw) return null;
-  const m = raw.match(/\b([A-Z]{3}[0-9]{1,2})\b/);
-  return m ? m[1] : raw;
+function extractField(ex: FieldExtractor | undefined): string | null {
+  if (!ex) return null;
+  let raw: string | null = null;
+  if (ex.selector) {
+    const el = safeQueryAll(ex.selector)[0];
+    raw = el ? normalize(el.textContent || "") || null : null;
+  }
+  for (const label of ex.labels ?? []) {
+    if (raw) break;
+    raw = extractUnderLabelFromInnerText(label);
+  }
+  if (!raw || !ex.regex) return raw;
+  try {
+    const m = raw.match(new RegExp(ex.regex));
+    return m ? m[1] ?? m[0] : raw;
+  } catch {
+    return raw;
+  }
+}
+
+function pageContext(): CapturedFacts {
+  const c = profile.context ?? {};
+  const order = orderContextFrom({
+    orderId: extractField(c.orderId) ?? orderIdFromUrl(location.href),
+    merchant: extractField(c.merchant),
+    postalCode: extractField(c.postalCode),
+    city: extractField(c.city),
+    address: extractField(c.address),
+    paymentType: extractField(c.paymentType),
+    weight: extractField(c.weight),
+    dimensions: extractField(c.dimensions),
+    quantity: extractField(c.quantity),
+  });
+  return {
+    fcFromPage: extractField(c.fc),
+    countryFromPage: extractField(c.country),
+    shippingMethodFromPage: extractField(c.shippingMethod),
+    order,
+  };
+}
+
+const PANEL_STEPS = 3;
+
+function removePanel() {
+  document.getElementById(PANEL_ID)?.remove();
+}
+
+function el<K extends keyof HTMLElementTagNameMap>(tag: K, style: string, text?: string) {
+  const e = document.createElement(tag);
+  e.style.cssText = style;
+  if (text != null) e.textContent = text;
+  return e;
 }
 
+// Top fix next to the Issue Note, or pinned to the corner for alerts and toasts.
+function showPanel(matches: { item: KBItem; score: number }[], onDismiss: () => void) {
+  removePanel();
+  const top = matches[0];
+  if (!top) return;
 
+  const panel = el(
+    "div",
+    "margin:8px 0; padding:10px 12px; border:1px solid #f0c36d; border-radius:10px; background:#fffbea; color:#222; font:13px/1.4 system-ui,sans-serif; max-width:520px; box-shadow:0 2px 8px rgba(0,0,0,.12); z-index:2147483647;"
+  );
+  panel.id = PANEL_ID;
 
-function detectCountryFromPage(): string | null {
-  return extractUnderLabelFromInnerText("COUNTRY");
+  const loc = localize(top.item, language);
+  const head = el("div", "display:flex; align-items:center; gap:8px; margin-bottom:6px;");
+  head.appendChild(el("strong", "flex:1;", `OLI: ${loc.title}`));
+  head.appendChild(el("span", "opacity:.7;", `${Math.round(top.score * 100)}%`));
+  const close = el("button", "border:0; background:none; cursor:pointer; font-size:16px; line-height:1; padding:0 2px;", "×");
+  close.title = "Dismiss";
+  close.addEventListener("click", () => {
+    removePanel();
+    onDismiss();
+  });
+  head.appendChild(close);
+  panel.appendChild(head);
+
+  const ol = el("ol", "margin:0; padding-left:18px;");
+  loc.fixSteps.slice(0, PANEL_STEPS).forEach((step) => ol.appendChild(el("li", "", step)));
+  panel.appendChild(ol);
+
+  const more = loc.fixSteps.length - PANEL_STEPS;
+  const others = matches.length - 1;
+  const notes = [
+    more > 0 ? `${more} more step${more === 1 ? "" : "s"}` : "",
+    others > 0 ? `${others} other match${others === 1 ? "" : "es"}` : "",
+  ].filter(Boolean);
+  if (notes.length) panel.appendChild(el("div", "margin-top:6px; opacity:.7;", `${notes.join(", ")} in the extension popup.`));
+
+  const anchor = findIssueNoteLabels()[0]?.parentElement;
+  if (anchor) {
+    anchor.insertAdjacentElement("afterend", panel);
+  } else {
+    panel.style.position = "fixed";
+    panel.style.right = "16px";
+    panel.style.bottom = "16px";
+    document.body.appendChild(panel);
+  }
 }
 
+const SCAN_DELAY_MS = 600;
 
-function detectShippingMethodFromPage(): string | null {
-  // Label in Hive FC: "Shipping contract method (by delivery rules)"
-  return extractUnderLabelFromInnerText("SHIPPING CONTRACT METHOD (BY DELIVERY RULES)");
+/**
+ * Watch the page for Issue Notes and alerts, match every error found in the
+ * background (which also sets the toolbar badge) and show the top fix of the
+ * first one with a match inline.
+ */
+function startAutoDetect() {
+  let lastKey: string | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const dismissed = new Set<string>();
+
+  // The error the panel is for and its matches.
+  let shown: { text: string; matches: { item: KBItem; score: number }[] } | null = null;
+  const show = (s: NonNullable<typeof shown>) => showPanel(s.matches, () => dismissed.add(s.text));
+
+  const scan = async () => {
+    // The same errors a capture finds, without the selection and the noisy page-text lines.
+    const texts = distinctCandidates([...issueNoteCandidates(), ...alertCandidates()]).map((c) => c.text);
+    const key = texts.join("\n");
+    if (key === lastKey) {
+      // The page re-rendered around the note and took the panel with it.
+      if (shown && !dismissed.has(shown.text) && !document.getElementById(PANEL_ID)) show(shown);
+      return;
+    }
+    lastKey = key;
+    shown = null;
+
+    if (!texts.length) {
+      removePanel();
+      await sendToBackground("OLI_PAGE_ERROR", { errorTexts: [] }).catch(() => {});
+      return;
+    }
+
+    const res = await sendToBackground("OLI_PAGE_ERROR", { errorTexts: texts, ...pageContext() }).catch(() => null);
+    if (key !== lastKey) return; // page moved on while we were matching
+    const i = res ? res.results.findIndex((r, j) => r.matches.length && !dismissed.has(texts[j])) : -1;
+    if (!res || i < 0) {
+      removePanel();
+      return;
+    }
+    shown = { text: texts[i], matches: res.results[i].matches };
+    show(shown);
+  };
+
+  const observer = new MutationObserver((records) => {
+    const inPanel = (n: Node) => {
+      const e = n instanceof Element ? n : n.parentElement;
+      return !!e && isOurs(e);
+    };
+    if (records.every((r) => inPanel(r.target))) return;
+    clearTimeout(timer);
+    timer = setTimeout(scan, SCAN_DELAY_MS);
+  });
+  observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+  scan();
+
+  return () => {
+    observer.disconnect();
+    clearTimeout(timer);
+    removePanel();
+    sendToBackground("OLI_PAGE_ERROR", { errorTexts: [] }).catch(() => {});
+  };
 }
 
+// Other sites' capture profiles register this script at runtime (see entrypoints/background.ts).
 export default defineContentScript({
   matches: ["https://fc.hive.app/*"],
   runAt: "document_idle",
   main() {
-    const handler = (msg: any, _sender: any, sendResponse: (res: any) => void) => {
-      if (msg?.type === "OLI_PING") {
-        sendResponse({ ok: true, shippingMethodFromPage: detectShippingMethodFromPage(), countryFromPage: detectCountryFromPage(), fcFromPage: detectFcFromPage(), pong: true });
-        return true;
-      }
+    browser.runtime.onMessage.addListener(
+      tabRouter({
+        OLI_PING: () => ({ ...pageContext(), profile: profile.id }),
 
-      if (msg?.type !== "OLI_CAPTURE_ERROR_TEXT") return;
+        OLI_HIGHLIGHT_SNIPPET: (msg) => ({ found: highlightSnippet(msg.id, msg.text) }),
 
-      const selection = getSelectionText();
-      if (selection) {
-        sendResponse({ ok: true, shippingMethodFromPage: detectShippingMethodFromPage(), countryFromPage: detectCountryFromPage(), fcFromPage: detectFcFromPage(), errorText: selection, source: "selection" });
-        return true;
-      }
+        OLI_SHOW_MATCHES: (msg) => {
+          showPanel(msg.matches, () => {});
+          return {};
+        },
 
-      const issueNote = findIssueNoteMessage();
-      if (issueNote) {
-        sendResponse({ ok: true, shippingMethodFromPage: detectShippingMethodFromPage(), countryFromPage: detectCountryFromPage(), fcFromPage: detectFcFromPage(), errorText: issueNote, source: "issue_note" });
-        return true;
-      }
+        // Right after the popup injects the script, the site's profile may not be loaded yet.
+        async OLI_CAPTURE_ERROR_TEXT() {
+          await ready;
+          const snippets = collectSnippets();
+          return { ...pageContext(), errorText: snippets[0]?.text ?? "", source: snippets[0]?.source ?? "", snippets };
+        },
+      })
+    );
 
-      const generic = findGenericErrorMessage();
-      if (generic) {
-        sendResponse({ ok: true, shippingMethodFromPage: detectShippingMethodFromPage(), countryFromPage: detectCountryFromPage(), fcFromPage: detectFcFromPage(), errorText: generic, source: "generic" });
-        return true;
+    let stop: (() => void) | null = null;
+    const toggle = (s: Settings) => {
+      profile = profileFor(location.href, s.captureProfiles);
+      language = s.language;
+      if (s.autoDetect && !stop) stop = startAutoDetect();
+      if (!s.autoDetect && stop) {
+        stop();
+        stop = null;
       }
-
-      sendResponse({ ok: false, reason: "No error message found on page." });
-      return true;
     };
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const rt: any =
-      (globalThis as any).chrome?.runtime ? (globalThis as any).chrome.runtime : (globalThis as any).browser?.runtime;
-
-    rt?.onMessage?.addListener?.(handler);
+    const ready = loadSettings().then(toggle).catch(() => {});
+    watchSettings(toggle);
   }
 });
@@ -0,0 +1,179 @@
+import {
+  filterCaptures,
+  listCaptures,
+  OUTCOME_LABELS,
+  setCaptureOutcome,
+  type CaptureFilter,
+  type CaptureRecord,
+  type Outcome,
+} from "@/utils/history";
+import type { FeedbackStats } from "@/utils/feedback";
+import { sendToBackground } from "@/utils/messages";
+import { describeOrder } from "@/utils/orderContext";
+
+function byId<T extends HTMLElement>(id: string) {
+  const el = document.getElementById(id);
+  if (!el) throw new Error(`Missing element: #${id}`);
+  return el as T;
+}
+
+function input(id: string) {
+  return byId<HTMLInputElement>(id);
+}
+
+const FILTER_INPUTS = ["query", "orderFilter", "fcFilter", "kbFilter"];
+
+function readFilter(): CaptureFilter {
+  return {
+    query: input("query").value,
+    orderId: input("orderFilter").value.trim(),
+    fc: input("fcFilter").value.trim(),
+    kbId: input("kbFilter").value.trim(),
+    outcome: (byId<HTMLSelectElement>("outcomeFilter").value || undefined) as CaptureFilter["outcome"],
+  };
+}
+
+function cell(text: string, className?: string) {
+  const td = document.createElement("td");
+  td.textContent = text;
+  if (className) td.className = className;
+  return td;
+}
+
+// Clicking an order, FC or KB entry narrows the list to it.
+function filterCell(value: string | null, filterId: string, label = value) {
+  const td = document.createElement("td");
+  if (!value) return td;
+  const span = document.createElement("span");
+  span.className = "link";
+  span.textContent = label ?? value;
+  span.addEventListener("click", () => {
+    input(filterId).value = value;
+    refresh();
+  });
+  td.appendChild(span);
+  return td;
+}
+
+function outcomeSelect(r: CaptureRecord) {
+  const sel = document.createElement("select");
+  sel.appendChild(new Option("-", ""));
+  for (const [value, label] of Object.entries(OUTCOME_LABELS)) sel.appendChild(new Option(label, value));
+  sel.value = r.outcome ?? "";
+  sel.addEventListener("change", async () => {
+    try {
+      await setCaptureOutcome(r.id, (sel.value || null) as Outcome | null);
+    } catch (e: any) {
+      byId<HTMLElement>("status").textContent = "Could not save outcome: " + String(e?.message || e);
+    }
+  });
+  const td = document.createElement("td");
+  td.appendChild(sel);
+  return td;
+}
+
+function renderRows(records: CaptureRecord[], orderCounts: Map<string, number>) {
+  const body = byId<HTMLTableSectionElement>("rows");
+  body.textContent = "";
+
+  for (const r of records) {
+    const tr = document.createElement("tr");
+    tr.appendChild(cell(new Date(r.createdAt).toLocaleString(), "when"));
+
+    const order = filterCell(r.orderId, "orderFilter");
+    const seen = r.orderId ? orderCounts.get(r.orderId) ?? 0 : 0;
+    if (seen > 1) {
+      const badge = document.createElement("span");
+      badge.className = "repeat";
+      badge.textContent = `×${seen}`;
+      badge.title = `${seen} captures for this order`;
+      order.appendChild(badge);
+    }
+    // Other order facts on hover, e.g. "25020 Flero · COD · 32.5 kg".
+    order.title = describeOrder(r.order);
+    tr.appendChild(order);
+
+    tr.appendChild(filterCell(r.fc, "fcFilter"));
+    tr.appendChild(cell(r.country ?? ""));
+    tr.appendChild(cell(r.errorText, "error"));
+
+    const top = r.matches[0];
+    tr.appendChild(top ? filterCell(top.id, "kbFilter", `${top.title} (${Math.round(top.score * 100)}%)`) : cell("No match"));
+    tr.appendChild(outcomeSelect(r));
+    body.appendChild(tr);
+  }
+}
+
+const STATS_SIGNATURES = 3;
+
+function outcomeSummary(records: CaptureRecord[], kbId: string) {
+  const counts = new Map<Outcome, number>();
+  for (const r of records) {
+    if (r.matches[0]?.id !== kbId || !r.outcome) continue;
+    counts.set(r.outcome, (counts.get(r.outcome) ?? 0) + 1);
+  }
+  return Array.from(counts, ([o, n]) => `${OUTCOME_LABELS[o]}: ${n}`).join(", ");
+}
+
+function renderStats(stats: FeedbackStats[], records: CaptureRecord[]) {
+  const body = byId<HTMLTableSectionElement>("statsRows");
+  body.textContent = "";
+
+  for (const s of stats) {
+    const tr = document.createElement("tr");
+    tr.appendChild(filterCell(s.kbId, "kbFilter", s.kbTitle || s.kbId));
+    tr.appendChild(cell(String(s.up)));
+    tr.appendChild(cell(String(s.down)));
+    tr.appendChild(cell(outcomeSummary(records, s.kbId)));
+
+    const sigs = document.createElement("ul");
+    sigs.className = "sigs";
+    for (const sig of s.signatures.slice(0, STATS_SIGNATURES)) {
+      const li = document.createElement("li");
+      li.textContent = `${sig.signature} (+${sig.up} / -${sig.down})`;
+      sigs.appendChild(li);
+    }
+    const sigCell = document.createElement("td");
+    sigCell.className = "error";
+    sigCell.appendChild(sigs);
+    tr.appendChild(sigCell);
+
+    tr.appendChild(cell(new Date(s.lastAt).toLocaleString(), "when"));
+    body.appendChild(tr);
+  }
+}
+
+async function refreshStats(records: CaptureRecord[]) {
+  const res = await sendToBackground("OLI_FEEDBACK_STATS").catch(() => null);
+  renderStats(res?.stats ?? [], records);
+}
+
+async function refresh() {
+  try {
+    const all = await listCaptures();
+    const records = filterCaptures(all, readFilter());
+    const orderCounts = new Map<string, number>();
+    // Automatic detection isn't an agent coming back to the order, so it doesn't count as a repeat.
+    for (const r of all) {
+      if (r.orderId && r.source !== "auto") orderCounts.set(r.orderId, (orderCounts.get(r.orderId) ?? 0) + 1);
+    }
+
+    renderRows(records, orderCounts);
+    byId<HTMLElement>("status").textContent = `${records.length} of ${all.length} capture(s).`;
+  } catch (e: any) {
+    byId<HTMLElement>("status").textContent = "Could not read history: " + String(e?.message || e);
+  }
+}
+
+document.addEventListener("DOMContentLoaded", () => {
+  for (const id of FILTER_INPUTS) input(id).addEventListener("input", refresh);
+  byId<HTMLSelectElement>("outcomeFilter").addEventListener("change", refresh);
+  byId<HTMLButtonElement>("clearFiltersBtn").addEventListener("click", () => {
+    for (const id of FILTER_INPUTS) input(id).value = "";
+    byId<HTMLSelectElement>("outcomeFilter").value = "";
+    refresh();
+  });
+
+  refresh();
+  listCaptures().then(refreshStats).catch(() => {});
+});
@@ -0,0 +1,386 @@
+import type { KBItem, KBLink } from "@/utils/kb";
+import { entryYaml, loadDrafts, newKBEntry, saveDrafts, slugify, type KBDrafts } from "@/utils/kbDraft";
+import { matchKB } from "@/utils/matcher";
+import { sendToBackground } from "@/utils/messages";
+import { DEFAULT_SETTINGS, loadSettings } from "@/utils/settings";
+import { zipFiles } from "@/utils/zip";
+
+function byId<T extends HTMLElement>(id: string) {
+  const el = document.getElementById(id);
+  if (!el) throw new Error(`Missing element: #${id}`);
+  return el as T;
+}
+
+function input(id: string) {
+  return byId<HTMLInputElement>(id);
+}
+
+function area(id: string) {
+  return byId<HTMLTextAreaElement>(id);
+}
+
+function setStatus(text: string) {
+  byId<HTMLElement>("status").textContent = text;
+}
+
+let settings = DEFAULT_SETTINGS;
+let kbItems: KBItem[] = [];
+let kbById = new Map<string, KBItem>();
+// Edited entries by the id they have in the KB; new entries by a "new_" key of their own.
+let drafts: KBDrafts = {};
+let selectedKey: string | null = null;
+let editedCache: [string, KBItem][] | null = null;
+
+const RANKING_LIMIT = 5;
+const EDIT_DEBOUNCE_MS = 300;
+const FILTER_INPUTS = ["query", "fcFilter", "tagFilter", "editedOnly"];
+
+// Every entry with its draft in place, new entries last, keyed as in `drafts`.
+function editedKB(): [string, KBItem][] {
+  editedCache ??= [
+    ...kbItems.map((it) => [it.id, drafts[it.id] ?? it] as [string, KBItem]),
+    ...Object.entries(drafts).filter(([key]) => !kbById.has(key)),
+  ];
+  return editedCache;
+}
+
+function editedItems() {
+  return editedKB().map(([, it]) => it);
+}
+
+function clean(s: string) {
+  return s.replace(/\s+/g, " ").trim();
+}
+
+function lines(id: string) {
+  return area(id).value.split(/\r?\n/).map(clean).filter(Boolean);
+}
+
+// "Label | https://..." per line; a line without a label gets build-kb.mjs's default one.
+function readLinks(): KBLink[] {
+  return lines("entryLinks").map((line) => {
+    const at = line.lastIndexOf("|");
+    if (at < 0) return { label: "Link", url: line };
+    return { label: clean(line.slice(0, at)) || "Link", url: clean(line.slice(at + 1)) };
+  });
+}
+
+function fillEditor(item: KBItem, isNew: boolean) {
+  byId<HTMLDivElement>("editor").style.display = "block";
+  const id = input("entryId");
+  id.value = item.id;
+  id.readOnly = !isNew;
+  // A new entry's id follows its title until it's typed in by hand.
+  if (isNew && (!item.id || item.id === slugify(item.title))) id.dataset.auto = "1";
+  else delete id.dataset.auto;
+  input("entryTitle").value = item.title;
+  input("entryFc").value = item.fc ?? "";
+  area("entryPatterns").value = item.patterns.join("\n");
+  area("entryFixSteps").value = item.fixSteps.join("\n");
+  area("entryLinks").value = (item.links ?? []).map((l) => `${l.label} | ${l.url}`).join("\n");
+}
+
+// The editor's fields over the entry they were filled from; other fields (when, tags, translations) are kept.
+function readEditor(base: KBItem): KBItem {
+  const fc = clean(input("entryFc").value);
+  const links = readLinks();
+  return {
+    ...base,
+    id: clean(input("entryId").value),
+    title: clean(input("entryTitle").value),
+    fc: fc || undefined,
+    patterns: lines("entryPatterns"),
+    fixSteps: lines("entryFixSteps"),
+    links: links.length ? links : undefined,
+  };
+}
+
+function regexError(p: string) {
+  try {
+    new RegExp(p, "i");
+    return null;
+  } catch (e: any) {
+    return String(e?.message || e);
+  }
+}
+
+// What would make build-kb.mjs reject the entry, or make it match every error.
+function problems(key: string, item: KBItem): string[] {
+  const out: string[] = [];
+  if (!item.id) out.push("Give the entry an id.");
+  else if (slugify(item.id) !== item.id) out.push(`The id may only use a-z, 0-9 and _, e.g. '${slugify(item.id)}'.`);
+  else if (editedKB().some(([k, it]) => k !== key && it.id === item.id)) out.push(`Another entry already has the id '${item.id}'.`);
+  if (!item.title) out.push("Give the entry a title.");
+  if (!item.patterns.length) out.push("Add at least one pattern.");
+  for (const p of item.patterns) {
+    const err = regexError(p);
+    if (err) out.push(`Pattern '${p}' is not a valid regex: ${err}`);
+    else if (new RegExp(p, "i").test("")) out.push(`Pattern '${p}' matches every error.`);
+  }
+  if (!item.fixSteps.length) out.push("Add at least one fix step.");
+  for (const l of item.links ?? []) {
+    if (!/^https?:\/\//i.test(l.url)) out.push(`Link '${l.label}' needs an http(s) URL.`);
+  }
+  return out;
+}
+
+function showProblems(key: string, item: KBItem) {
+  const list = byId<HTMLUListElement>("problems");
+  list.textContent = "";
+  for (const p of problems(key, item)) {
+    const li = document.createElement("li");
+    li.className = "bad";
+    li.textContent = p;
+    list.appendChild(li);
+  }
+}
+
+function currentItem(): KBItem | null {
+  if (!selectedKey) return null;
+  return drafts[selectedKey] ?? kbById.get(selectedKey) ?? null;
+}
+
+function fillFilters() {
+  const fcs = new Set<string>();
+  const tags = new Set<string>();
+  for (const it of editedItems()) {
+    if (it.fc) fcs.add(it.fc);
+    for (const t of it.tags ?? []) tags.add(t);
+  }
+  for (const [id, values] of [["fcFilter", fcs], ["tagFilter", tags]] as const) {
+    const sel = byId<HTMLSelectElement>(id);
+    const current = sel.value;
+    while (sel.options.length > 1) sel.remove(1);
+    for (const v of Array.from(values).sort()) sel.appendChild(new Option(v, v));
+    sel.value = values.has(current) ? current : "";
+  }
+}
+
+function matchesFilter(key: string, it: KBItem) {
+  const q = input("query").value.trim().toLowerCase();
+  const fc = byId<HTMLSelectElement>("fcFilter").value;
+  const tag = byId<HTMLSelectElement>("tagFilter").value;
+  if (input("editedOnly").checked && !drafts[key]) return false;
+  if (fc && it.fc !== fc) return false;
+  if (tag && !(it.tags ?? []).includes(tag)) return false;
+  if (!q) return true;
+  return [it.id, it.title, ...it.patterns, ...it.fixSteps].some((s) => s.toLowerCase().includes(q));
+}
+
+function renderList() {
+  const list = byId<HTMLUListElement>("entries");
+  list.textContent = "";
+  const shown = editedKB().filter(([key, it]) => matchesFilter(key, it));
+
+  for (const [key, it] of shown) {
+    const li = document.createElement("li");
+    if (key === selectedKey) li.className = "selected";
+
+    const title = document.createElement("div");
+    title.textContent = it.title || "Untitled";
+    if (drafts[key]) {
+      const badge = document.createElement("span");
+      badge.className = "badge";
+      badge.textContent = kbById.has(key) ? "edited" : "new";
+      title.appendChild(badge);
+    }
+    const id = document.createElement("div");
+    id.className = "id";
+    id.textContent = [it.id, it.fc].filter(Boolean).join(" · ");
+
+    li.append(title, id);
+    li.addEventListener("click", () => select(key));
+    list.appendChild(li);
+  }
+
+  const edited = Object.keys(drafts).length;
+  byId<HTMLButtonElement>("exportBtn").textContent = `Export edited (${edited}) as .zip`;
+  byId<HTMLButtonElement>("exportBtn").disabled = !edited;
+  setStatus(`${shown.length} of ${editedKB().length} entries.`);
+}
+
+function select(key: string) {
+  const item = drafts[key] ?? kbById.get(key);
+  if (!item) return;
+  selectedKey = key;
+  fillEditor(item, !kbById.has(key));
+  showProblems(key, item);
+  renderList();
+  runTest();
+}
+
+let editTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Keep the editor's state as the entry's draft; an entry edited back to the KB's version has none.
+function onEdit() {
+  if (!selectedKey) return;
+  const key = selectedKey;
+  const original = kbById.get(key);
+  const base = drafts[key] ?? original;
+  if (!base) return;
+  if (input("entryId").dataset.auto) input("entryId").value = slugify(input("entryTitle").value);
+  const item = readEditor(base);
+  if (original && entryYaml(item) === entryYaml(original)) delete drafts[key];
+  else drafts[key] = item;
+  editedCache = null;
+  showProblems(key, item);
+
+  clearTimeout(editTimer);
+  editTimer = setTimeout(() => {
+    saveDrafts(drafts).catch((e) => setStatus("Could not save the draft: " + String(e?.message || e)));
+    renderList();
+    runTest();
+  }, EDIT_DEBOUNCE_MS);
+}
+
+function checkItem(text: string, ok: boolean) {
+  const li = document.createElement("li");
+  li.className = ok ? "ok" : "bad";
+  li.textContent = text;
+  return li;
+}
+
+// The entry's patterns and the real matcher, over the KB with every draft in place.
+function runTest() {
+  const checks = byId<HTMLUListElement>("patternChecks");
+  const ranking = byId<HTMLOListElement>("ranking");
+  checks.textContent = "";
+  ranking.textContent = "";
+  const item = currentItem();
+  const text = area("testText").value.trim();
+  if (!item || !text) return;
+
+  for (const p of item.patterns) {
+    const err = regexError(p);
+    const hit = err ? null : new RegExp(p, "i").exec(text);
+    checks.appendChild(
+      err
+        ? checkItem(`'${p}' is not a valid regex: ${err}`, false)
+        : checkItem(hit ? `'${p}' matches "${hit[0]}"` : `'${p}' doesn't match`, !!hit)
+    );
+  }
+
+  const res = matchKB(editedItems(), { errorText: text }, {
+    limit: RANKING_LIMIT,
+    minScore: settings.minScore,
+    fcBoost: settings.fcBoost,
+  });
+  for (const m of res.matches) {
+    const li = document.createElement("li");
+    if (m.item.id === item.id) li.className = "this";
+    li.textContent = `${m.item.title || "Untitled"} (${Math.round(m.score * 100)}%, ${m.why?.reason ?? "similar"})`;
+    ranking.appendChild(li);
+  }
+  if (!res.matches.some((m) => m.item.id === item.id)) {
+    checks.appendChild(checkItem(`This entry is not in the top ${RANKING_LIMIT} for this error.`, false));
+  }
+}
+
+function download(blob: Blob, filename: string) {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+}
+
+function exportDrafts() {
+  const entries = Object.entries(drafts);
+  const invalid = entries.filter(([key, it]) => problems(key, it).length);
+  if (invalid.length) {
+    select(invalid[0][0]);
+    setStatus(`Fix ${invalid.length} entr${invalid.length === 1 ? "y" : "ies"} before exporting: ${invalid.map(([, it]) => it.id || it.title || "untitled").join(", ")}`);
+    return;
+  }
+
+  const files = entries.map(([, it]) => ({ name: `kb/errors/${it.id}.yml`, text: entryYaml(it) }));
+  download(zipFiles(files), `oli-kb-edits-${new Date().toISOString().slice(0, 10)}.zip`);
+  const replaced = entries.filter(([key]) => kbById.has(key)).length;
+  setStatus(
+    `Exported ${files.length} file(s).` +
+      (replaced ? " The KB in the extension has no examples: copy them over from the files being replaced." : "")
+  );
+}
+
+// A new entry, from the popup's "No match found" panel when it passes the error along.
+function addEntry(errorText = "", fc: string | null = null) {
+  const key = `new_${Date.now()}`;
+  drafts[key] = errorText ? newKBEntry({ errorText, fc }) : { id: "", title: "", patterns: [], fixSteps: [] };
+  editedCache = null;
+  if (errorText) area("testText").value = errorText;
+  saveDrafts(drafts).catch(() => {});
+  fillFilters();
+  select(key);
+}
+
+async function load() {
+  const [res, saved, s] = await Promise.all([sendToBackground("OLI_KB_ITEMS"), loadDrafts(), loadSettings()]);
+  settings = s;
+  kbItems = res.items;
+  kbById = new Map(kbItems.map((it) => [it.id, it]));
+  drafts = saved;
+  editedCache = null;
+
+  const version = res.kbVersion ? ` ${res.kbVersion}` : "";
+  byId<HTMLElement>("source").textContent = `KB${version} from ${res.kbSource}, ${kbItems.length} entries.`;
+  fillFilters();
+  renderList();
+}
+
+document.addEventListener("DOMContentLoaded", async () => {
+  for (const id of FILTER_INPUTS) byId(id).addEventListener(id === "query" ? "input" : "change", renderList);
+
+  input("entryId").addEventListener("input", () => delete input("entryId").dataset.auto);
+  for (const id of ["entryId", "entryTitle", "entryFc", "entryPatterns", "entryFixSteps", "entryLinks"]) {
+    byId(id).addEventListener("input", onEdit);
+  }
+  area("testText").addEventListener("input", runTest);
+
+  byId<HTMLButtonElement>("newBtn").addEventListener("click", () => addEntry());
+  byId<HTMLButtonElement>("exportBtn").addEventListener("click", exportDrafts);
+
+  byId<HTMLButtonElement>("downloadBtn").addEventListener("click", () => {
+    const item = currentItem();
+    if (item) download(new Blob([entryYaml(item)], { type: "text/yaml" }), `${item.id || "untitled"}.yml`);
+  });
+
+  byId<HTMLButtonElement>("copyYamlBtn").addEventListener("click", async () => {
+    const item = currentItem();
+    if (!item) return;
+    try {
+      await navigator.clipboard.writeText(entryYaml(item));
+      setStatus("YAML copied.");
+    } catch (e: any) {
+      setStatus("Copy failed: " + String(e?.message || e));
+    }
+  });
+
+  byId<HTMLButtonElement>("discardBtn").addEventListener("click", async () => {
+    const key = selectedKey;
+    if (!key || !drafts[key] || !confirm("Discard the changes to this entry?")) return;
+    delete drafts[key];
+    editedCache = null;
+    await saveDrafts(drafts).catch(() => {});
+    if (kbById.has(key)) {
+      select(key);
+    } else {
+      selectedKey = null;
+      byId<HTMLDivElement>("editor").style.display = "none";
+      renderList();
+    }
+  });
+
+  try {
+    await load();
+  } catch (e: any) {
+    setStatus("Could not load the KB: " + String(e?.message || e));
+    return;
+  }
+
+  const params = new URLSearchParams(location.search);
+  const errorText = params.get("error");
+  if (errorText) {
+    history.replaceState(null, "", location.pathname);
+    addEntry(errorText, params.get("fc"));
+  }
+});
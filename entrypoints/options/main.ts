@@ -0,0 +1,181 @@
+import { LANGUAGE_NAMES, LANGUAGES, type Language } from "@/utils/language";
+import { sendToBackground } from "@/utils/messages";
+import type { OutboundStatus } from "@/utils/outbound";
+import { normalizeProfiles, patternOrigin, profileOrigins } from "@/utils/profiles";
+import { DEFAULT_SETTINGS, loadSettings, resetSettings, saveSettings, type Settings } from "@/utils/settings";
+
+function byId<T extends HTMLElement>(id: string) {
+  const el = document.getElementById(id);
+  if (!el) throw new Error(`Missing element: #${id}`);
+  return el as T;
+}
+
+function input(id: string) {
+  return byId<HTMLInputElement>(id);
+}
+
+function setStatus(text: string) {
+  byId<HTMLElement>("status").textContent = text;
+}
+
+function fillForm(s: Settings) {
+  input("kbUrl").value = s.kbUrl;
+  input("cacheTtlMinutes").value = String(s.cacheTtlMinutes);
+  input("maxResults").value = String(s.maxResults);
+  input("minScore").value = String(Math.round(s.minScore * 100));
+  input("fcBoost").value = String(Math.round(s.fcBoost * 100));
+  input("homeFc").value = s.homeFc;
+  byId<HTMLSelectElement>("language").value = s.language;
+  byId<HTMLTextAreaElement>("commonDestinations").value = s.commonDestinations.join("\n");
+  input("autoDetect").checked = s.autoDetect;
+  byId<HTMLSelectElement>("sink").value = s.sink;
+  input("webhookUrl").value = s.webhookUrl;
+  input("webhookHeaderName").value = s.webhookHeaderName;
+  input("webhookHeaderValue").value = s.webhookHeaderValue;
+  byId<HTMLTextAreaElement>("captureProfiles").value = JSON.stringify(s.captureProfiles, null, 2);
+  showProfileAccess(s).catch(() => {});
+}
+
+// Which profiles can run: their sites need host access, granted when settings are saved.
+async function showProfileAccess(s: Settings) {
+  const list = byId<HTMLUListElement>("profileAccess");
+  list.innerHTML = "";
+  for (const prof of s.captureProfiles) {
+    const origins = prof.urlPatterns.map(patternOrigin).filter((o): o is string => !!o);
+    const granted = await browser.permissions.contains({ origins }).catch(() => false);
+    const li = document.createElement("li");
+    li.textContent = `${prof.name}: ${granted ? "active" : "no access yet, save to grant it"}`;
+    list.appendChild(li);
+  }
+}
+
+// Throws when the capture profiles JSON doesn't parse or a profile is invalid.
+function readForm(): Partial<Settings> {
+  const profilesText = byId<HTMLTextAreaElement>("captureProfiles").value.trim();
+  return {
+    kbUrl: input("kbUrl").value,
+    cacheTtlMinutes: Number(input("cacheTtlMinutes").value),
+    maxResults: Number(input("maxResults").value),
+    minScore: Number(input("minScore").value) / 100,
+    fcBoost: Number(input("fcBoost").value) / 100,
+    homeFc: input("homeFc").value,
+    language: byId<HTMLSelectElement>("language").value as Language,
+    commonDestinations: byId<HTMLTextAreaElement>("commonDestinations").value.split("\n"),
+    autoDetect: input("autoDetect").checked,
+    sink: byId<HTMLSelectElement>("sink").value as Settings["sink"],
+    webhookUrl: input("webhookUrl").value,
+    webhookHeaderName: input("webhookHeaderName").value,
+    webhookHeaderValue: input("webhookHeaderValue").value,
+    captureProfiles: profilesText ? normalizeProfiles(JSON.parse(profilesText), true) : [],
+  };
+}
+
+// Host permission pattern for a URL, e.g. "https://example.org/*". Plain http only for local test servers.
+function originPattern(url: string): string | null {
+  try {
+    const u = new URL(url);
+    const local = u.protocol === "http:" && (u.hostname === "localhost" || u.hostname === "127.0.0.1");
+    return u.protocol === "https:" || local ? `${u.protocol}//${u.hostname}/*` : null;
+  } catch {
+    return null;
+  }
+}
+
+async function save(e: Event) {
+  e.preventDefault();
+  let next: Partial<Settings>;
+  try {
+    next = readForm();
+  } catch (err: any) {
+    setStatus("Capture profiles: " + String(err?.message || err));
+    return;
+  }
+  const urls: [string, string][] = [["KB URL", String(next.kbUrl || "").trim()]];
+  if (next.sink === "webhook") {
+    const webhookUrl = String(next.webhookUrl || "").trim();
+    if (!webhookUrl) {
+      setStatus("Enter a webhook URL or pick another delivery option.");
+      return;
+    }
+    urls.push(["Webhook URL", webhookUrl]);
+  }
+
+  const origins: string[] = [];
+  for (const [label, url] of urls) {
+    if (!url) continue;
+    const origin = originPattern(url);
+    if (!origin) {
+      setStatus(`${label} must be an https:// address.`);
+      return;
+    }
+    origins.push(origin);
+  }
+  origins.push(...profileOrigins(next.captureProfiles ?? []));
+
+  if (origins.length) {
+    // Must run inside the click, before any other await, or the browser won't show the prompt.
+    const granted = await browser.permissions.request({ origins }).catch(() => false);
+    if (!granted) {
+      setStatus(`Access to ${origins.join(", ")} was not granted; settings not saved.`);
+      return;
+    }
+  }
+
+  try {
+    fillForm(await saveSettings(next));
+  } catch (err: any) {
+    setStatus("Could not save settings: " + String(err?.message || err));
+    return;
+  }
+  setStatus("Saved.");
+  refreshOutbound();
+}
+
+function showOutbound(st: OutboundStatus) {
+  const parts = [`${st.pending} payload(s) waiting`];
+  if (st.exported) parts.push(`${st.exported} ready to download`);
+  if (st.lastError) parts.push(`last error: ${st.lastError}`);
+  byId<HTMLElement>("outboundStatus").textContent = parts.join(" · ");
+}
+
+function refreshOutbound() {
+  sendToBackground("OLI_OUTBOUND_STATUS").then(showOutbound).catch(() => {});
+}
+
+async function downloadExport() {
+  const { ndjson } = await sendToBackground("OLI_OUTBOUND_EXPORT");
+  if (!ndjson) {
+    setStatus("Nothing to download yet.");
+    return;
+  }
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(new Blob([ndjson], { type: "application/x-ndjson" }));
+  a.download = `oli-captures-${new Date().toISOString().slice(0, 10)}.ndjson`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+  refreshOutbound();
+}
+
+document.addEventListener("DOMContentLoaded", async () => {
+  for (const lang of LANGUAGES) {
+    const opt = document.createElement("option");
+    opt.value = lang;
+    opt.textContent = LANGUAGE_NAMES[lang];
+    byId<HTMLSelectElement>("language").appendChild(opt);
+  }
+  fillForm(await loadSettings().catch(() => DEFAULT_SETTINGS));
+
+  byId<HTMLFormElement>("settingsForm").addEventListener("submit", save);
+  byId<HTMLButtonElement>("resetBtn").addEventListener("click", async () => {
+    fillForm(await resetSettings());
+    setStatus("Defaults restored.");
+  });
+
+  byId<HTMLButtonElement>("flushBtn").addEventListener("click", () => {
+    sendToBackground("OLI_OUTBOUND_FLUSH").then(showOutbound).catch(() => {});
+  });
+  byId<HTMLButtonElement>("exportBtn").addEventListener("click", () => {
+    downloadExport().catch((err) => setStatus("Download failed: " + String(err?.message || err)));
+  });
+  refreshOutbound();
+});
@@ -1,19 +1,64 @@
+import { describeCarrier, findCarrier } from "@/utils/carriers";
+import { addCapture, setCaptureOutcome, type Outcome } from "@/utils/history";
+import type { OutboundPayload, OutboundStatus } from "@/utils/outbound";
+import { carrierHints, type HintRule } from "@/utils/hints";
+import { draftKBEntry } from "@/utils/kbDraft";
+import type { ParsedError } from "@/utils/errorParser";
+import type { KBItem } from "@/utils/kb";
+import { contextFromPage, type MatchExplanation, type ScoredMatch } from "@/utils/matcher";
+import { sendToBackground, sendToTab, type CapturedSnippet, type KBStatus, type MatchResponse } from "@/utils/messages";
+import { clearTabFlag, takePopupAction } from "@/utils/popupAction";
+import { describeOrder, type OrderContext } from "@/utils/orderContext";
+import { profileFor } from "@/utils/profiles";
+import { LANGUAGE_NAMES, localize, type Language } from "@/utils/language";
+import { terms as termsOf } from "@/utils/retrieval";
+import { DEFAULT_SETTINGS, loadSettings, watchSettings } from "@/utils/settings";
+
+let settings = DEFAULT_SETTINGS;
+
+// History record of the error shown, for the outcome buttons.
+let captureId: string | null = null;
+// Outcomes picked since the popup opened, so switching snippet tabs shows each one's.
+const captureOutcomes = new Map<string, Outcome | null>();
+
+const SEARCH_AS_YOU_TYPE_MIN = 3;
+const SEARCH_DEBOUNCE_MS = 350;
+
+// Error the shown matches were found for, so votes can be stored with it.
+let lastQuery: { errorText: string; ctx: PageContext } | null = null;
+
 async function getActiveTab() {
   const tabs = await browser.tabs.query({ active: true, currentWindow: true });
   return tabs[0];
 }
 
-async function safeCapture(tabId: number) {
+async function safeCapture(tabId: number, url?: string) {
   try {
-    const res = await browser.tabs.sendMessage(tabId, { type: "OLI_CAPTURE_ERROR_TEXT" });
+    const res = await sendToTab(tabId, "OLI_CAPTURE_ERROR_TEXT");
     return { ok: true as const, res };
   } catch (e: any) {
+    // Tabs opened before a capture profile's site was granted don't have the script yet.
+    if (url && profileFor(url, settings.captureProfiles).id !== "generic") {
+      try {
+        await browser.scripting.executeScript({ target: { tabId }, files: ["/content-scripts/capture.js"] });
+        const res = await sendToTab(tabId, "OLI_CAPTURE_ERROR_TEXT");
+        return { ok: true as const, res };
+      } catch {}
+    }
     return { ok: false as const, error: String(e?.message || e) };
   }
 }
 
-async function matchError(errorText: string, fcFromPage?: any) {
-  return await browser.runtime.sendMessage({ type: "OLI_MATCH_ERROR_V2", errorText, fcFromPage });
+type PageContext = {
+  fcFromPage?: string | null;
+  countryFromPage?: string | null;
+  shippingMethodFromPage?: string | null;
+  order?: OrderContext | null;
+};
+
+async function matchError(errorText: string, ctx: PageContext = {}) {
+  lastQuery = { errorText, ctx };
+  return await sendToBackground("OLI_MATCH_ERROR", { errorText, ...ctx });
 }
 
 function byId<T extends HTMLElement>(id: string) {
@@ -26,8 +71,110 @@ function setText(id: string, text: string) {
   byId<HTMLElement>(id).textContent = text;
 }
 
+function kbInfoText(st: Partial<MatchResponse & KBStatus> | null) {
+  const lines = [
+    `KB source: ${st?.kbSource ?? "unknown"}  Version: ${st?.kbVersion ?? "-"}`,
+    `Updated: ${st?.kbUpdatedAt ?? "-"}`,
+  ];
+  if (st?.kbSyncError) lines.push(`Last sync failed: ${st.kbSyncError}`);
+  if (st?.debugExactCount) {
+    lines.push(`Exact title hits: ${st.debugExactCount} (shown instead of pattern and similarity matches)`);
+  }
+  if (st?.debugNormError) lines.push(`Normalised error: ${st.debugNormError}`);
+  if (st?.language) lines.push(`Error language: ${LANGUAGE_NAMES[st.language] ?? st.language}`);
+  return lines.join("\n");
+}
+
 function clearResults() {
   byId<HTMLDivElement>("results").innerHTML = "";
+  activeResult = -1;
+  const panel = byId<HTMLDivElement>("noMatchPanel");
+  panel.textContent = "";
+  panel.style.display = "none";
+}
+
+function panelButton(text: string, onClick: () => void) {
+  const b = document.createElement("button");
+  b.type = "button";
+  b.className = "btn-secondary";
+  b.textContent = text;
+  b.addEventListener("click", onClick);
+  return b;
+}
+
+// Offers a kb/errors/*.yml draft for an error the KB doesn't know yet.
+function showNoMatchPanel(errorText: string, fc: string | null) {
+  const panel = byId<HTMLDivElement>("noMatchPanel");
+  panel.textContent = "";
+  panel.style.display = "block";
+
+  const head = document.createElement("b");
+  head.textContent = "No match found.";
+  panel.appendChild(head);
+  const small = document.createElement("div");
+  small.className = "small";
+  small.textContent = "Know the fix? Draft a KB entry and send it to the KB maintainers, or write it in the KB editor.";
+  panel.appendChild(small);
+
+  const actions = document.createElement("div");
+  actions.className = "actions";
+  panel.appendChild(actions);
+
+  const propose = panelButton("Propose a KB entry", () => {
+    const draft = draftKBEntry({ errorText, fc });
+    propose.remove();
+
+    const area = document.createElement("textarea");
+    area.id = "kbDraft";
+    area.spellcheck = false;
+    area.value = draft.yaml;
+    panel.insertBefore(area, actions);
+
+    actions.appendChild(
+      panelButton("Copy", async () => {
+        try {
+          await navigator.clipboard.writeText(area.value);
+          setText("status", "KB draft copied.");
+        } catch (e: any) {
+          setText("status", "Copy failed: " + String(e?.message || e));
+        }
+      })
+    );
+    actions.appendChild(
+      panelButton("Download .yml", () => {
+        const a = document.createElement("a");
+        a.href = URL.createObjectURL(new Blob([area.value], { type: "text/yaml" }));
+        a.download = draft.filename;
+        a.click();
+        setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+      })
+    );
+  });
+  actions.appendChild(propose);
+
+  actions.appendChild(
+    panelButton("Open in KB editor", () => {
+      const params = new URLSearchParams({ error: errorText, ...(fc ? { fc } : {}) });
+      browser.tabs.create({ url: browser.runtime.getURL(`/kb-editor.html?${params}`) });
+    })
+  );
+}
+
+function showOutcomeBar(id: string | null, outcome: Outcome | null = null) {
+  captureId = id;
+  const bar = byId<HTMLDivElement>("outcomeBar");
+  bar.style.display = id ? "flex" : "none";
+  bar.querySelectorAll<HTMLButtonElement>("button[data-outcome]").forEach((b) => {
+    b.classList.toggle("selected", b.dataset.outcome === outcome);
+  });
+}
+
+// "Payload to DB (2 pending)" while the background still has undelivered records.
+function showOutboundStatus(st: OutboundStatus) {
+  const toggle = document.getElementById("payloadToggle");
+  if (!toggle) return;
+  toggle.textContent = st.pending ? `Payload to DB (${st.pending} pending)` : "Payload to DB";
+  toggle.title = st.lastError ? `Last delivery error: ${st.lastError}` : "";
 }
 
 function sanitizeUrl(raw: string): string {
@@ -49,22 +196,161 @@ function sanitizeUrl(raw: string): string {
 }
 
 
-function getFcTag(item: any): string | null {
-  const v = item?.fc ?? item?.FC ?? item?.fulfillmentCenter ?? item?.warehouse ?? item?.warehouses ?? item?.warehouseIds ?? null;
-  if (!v) return null;
-  if (Array.isArray(v)) {
-    const arr = v.map((x: any) => String(x).trim()).filter(Boolean);
-    return arr.length ? arr.join(", ") : null;
+function getFcTag(item: KBItem): string | null {
+  return item.fc?.trim() || null;
+}
+
+function describeError(err: ParsedError | undefined): string | null {
+  const msg = String(err?.message || "").trim();
+  if (!msg) return null;
+  return err?.fieldPath ? `${err.fieldPath}: ${msg}` : msg;
+}
+
+function feedbackRow(item: KBItem, errorIndex?: number) {
+  const row = document.createElement("div");
+  row.className = "feedback";
+  const label = document.createElement("span");
+  label.textContent = "Right fix?";
+  row.appendChild(label);
+
+  let voteId: string | undefined;
+  const buttons = ([["👍", 1], ["👎", -1]] as const).map(([text, vote]) => {
+    const b = document.createElement("button");
+    b.type = "button";
+    b.className = "btn-secondary";
+    b.textContent = text;
+    b.title = vote > 0 ? "This fix fits the error" : "This fix is wrong for the error";
+    b.addEventListener("click", async () => {
+      if (!lastQuery) return;
+      try {
+        const res = await sendToBackground("OLI_FEEDBACK", {
+          voteId,
+          kbId: item.id,
+          kbTitle: item.title,
+          vote,
+          errorText: lastQuery.errorText,
+          errorIndex,
+          ...lastQuery.ctx,
+        });
+        voteId = res.voteId;
+        buttons.forEach((x) => x.classList.toggle("selected", x === b));
+      } catch (e: any) {
+        setText("status", "Could not save feedback: " + String(e?.message || e));
+      }
+    });
+    row.appendChild(b);
+    return b;
+  });
+  return row;
+}
+
+// What a match's percentage stands for. Taken from the rule that scored it, not the number:
+// FC, carrier, `when:` and feedback boosts can lift similar wording into a higher band.
+function scoreMeaning(why: MatchExplanation | undefined) {
+  switch (why?.reason) {
+    case "exact":
+    case "pattern":
+      return "Exact title or KB pattern match";
+    case "structured":
+    case "title":
+      return "Same field and message, or the KB title appears in the error";
+    case "context":
+      return "Only the page context matches; check the fix applies";
+    default:
+      return "Similar wording; check the fix applies";
+  }
+}
+
+// Plain-language version of the rule that scored the match; see MatchReason in utils/matcher.ts.
+function reasonText(why: MatchExplanation | undefined, exactCount: number) {
+  switch (why?.reason) {
+    case "exact":
+      return `The KB title and the captured error are the same text, or one contains the other. ` +
+        `Exact title hits (${exactCount} here) are shown instead of pattern and similarity matches.`;
+    case "structured":
+      return "Same field and message as an error quoted in the KB title.";
+    case "pattern":
+      return `KB pattern /${why.pattern}/ matched.`;
+    case "title":
+      return "The KB title appears in the error.";
+    case "context":
+      return "Related wording only; it ranks because the page context matches the entry's conditions.";
+    default:
+      return "Similar wording: terms and spelling the error shares with the entry.";
+  }
+}
+
+// Where the explanation points in the text: the matched substring, else every shared term.
+// Words count as shared when they map to a shared term in the error's language, e.g. "Hausnummer".
+function highlightRanges(text: string, why: MatchExplanation | undefined, lang?: Language): [number, number][] {
+  if (why?.matched) {
+    const at = text.toLowerCase().indexOf(why.matched.toLowerCase());
+    return at >= 0 ? [[at, at + why.matched.length]] : [];
   }
-  const str = String(v).trim();
-  return str || null;
+  const terms = new Set<string>(why?.terms ?? []);
+  if (!terms.size) return [];
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu))
+    .filter((w) => termsOf(w[0], lang).some((t) => terms.has(t)))
+    .map((w) => [w.index!, w.index! + w[0].length] as [number, number]);
 }
 
-function renderMatch(item: any, score: number) {
+function highlighted(text: string, ranges: [number, number][]) {
+  const el = document.createElement("div");
+  el.className = "text";
+  let pos = 0;
+  for (const [start, end] of ranges) {
+    el.appendChild(document.createTextNode(text.slice(pos, start)));
+    const mark = document.createElement("mark");
+    mark.textContent = text.slice(start, end);
+    el.appendChild(mark);
+    pos = end;
+  }
+  el.appendChild(document.createTextNode(text.slice(pos)));
+  return el;
+}
+
+function pct(x: number) {
+  return `${Math.round((x ?? 0) * 100)}%`;
+}
+
+// Expandable "Why this match?" for a result card, built from ScoredMatch.why.
+function whyDetails(m: ScoredMatch, text: string, exactCount: number, lang?: Language) {
+  const why = m.why;
+  const carrierBoost = why?.carrierBoost ?? 0;
+  const details = document.createElement("details");
+  details.className = "why";
+  const summary = document.createElement("summary");
+  summary.textContent = "Why this match?";
+  details.appendChild(summary);
+
+  const line = (t: string) => {
+    const div = document.createElement("div");
+    div.textContent = t;
+    details.appendChild(div);
+  };
+
+  line(reasonText(why, exactCount));
+  if (text) details.appendChild(highlighted(text, highlightRanges(text, why, lang)));
+  if (why?.terms?.length) line("Shared terms: " + why.terms.join(", "));
+  if (why?.lexical || why?.ngram) line(`Similarity: wording ${pct(why.lexical)}, spelling ${pct(why.ngram)}`);
+  if (why?.fcBoost) line(`FC boost: +${pct(why.fcBoost)} (entry is for this page's FC)`);
+  if (carrierBoost > 0) line(`Carrier boost: +${pct(carrierBoost)} (entry is for this order's carrier)`);
+  if (carrierBoost < 0) line(`Carrier: -${pct(-carrierBoost)} (entry is for another carrier)`);
+  if (m.conditions?.length) line("Page context matches the entry's conditions: " + m.conditions.join(", "));
+  if (why?.whenMismatch) line("Ranked down: the page context rules out the entry's conditions.");
+  if (m.feedback) line(`Agent votes on similar errors: ${m.feedback > 0 ? "+" : ""}${m.feedback}`);
+  return details;
+}
+
+function renderMatch(m: ScoredMatch, matchRes: MatchResponse) {
+  const { item, score } = m;
+  const forError = m.errorIndex != null ? matchRes.errors[m.errorIndex] : undefined;
   const results = document.getElementById("results");
   if (!results) throw new Error("Missing element: #results");
 
   const container = document.createElement("div");
+  container.className = "result";
+  resultItems.set(container, item);
   container.style.border = "1px solid #ddd";
   container.style.padding = "10px";
   container.style.marginTop = "10px";
@@ -72,9 +358,22 @@ function renderMatch(item: any, score: number) {
 
   const header = document.createElement("div");
   header.style.fontWeight = "600";
-  header.textContent = `${item?.title ?? "Untitled"} (${Math.round((score ?? 0) * 100)}%)`;
+  const loc = localize(item, settings.language);
+  header.textContent = `${loc.title || "Untitled"} (${Math.round(score * 100)}%)`;
+  header.title = loc.translatedTitle ? `${item.title}\n\n${scoreMeaning(m.why)}` : scoreMeaning(m.why);
   container.appendChild(header);
 
+  // Which sub-error of a multi-error note this fix is for
+  const forText = describeError(forError);
+  if (forText) {
+    const sub = document.createElement("div");
+    sub.style.marginTop = "4px";
+    sub.style.fontSize = "12px";
+    sub.style.color = "#6b7280";
+    sub.textContent = "For: " + forText;
+    container.appendChild(sub);
+  }
+
   // FC chip
   const fc = getFcTag(item);
   if (fc) {
@@ -97,7 +396,16 @@ function renderMatch(item: any, score: number) {
   }
 
   const steps = document.createElement("ol");
-  for (const step of (item?.fixSteps ?? [])) {
+  if (settings.language !== "en" && !loc.translatedSteps) {
+    const note = document.createElement("div");
+    note.style.marginTop = "6px";
+    note.style.fontSize = "12px";
+    note.style.color = "#6b7280";
+    note.textContent = `No ${LANGUAGE_NAMES[settings.language]} fix steps yet; showing English.`;
+    container.appendChild(note);
+  }
+
+  for (const step of loc.fixSteps ?? []) {
     const li = document.createElement("li");
     li.textContent = String(step);
     steps.appendChild(li);
@@ -105,8 +413,8 @@ function renderMatch(item: any, score: number) {
   container.appendChild(steps);
 
   // Links (from KB URL column -> item.links[])
-  const links = item?.links;
-  if (Array.isArray(links) && links.length) {
+  const links = item.links ?? [];
+  if (links.length) {
     const linksContainer = document.createElement("div");
     linksContainer.style.display = "flex";
     linksContainer.style.flexWrap = "wrap";
@@ -114,14 +422,14 @@ function renderMatch(item: any, score: number) {
     linksContainer.style.marginTop = "10px";
 
     for (const link of links) {
-      const url = sanitizeUrl(String(link?.url || ""));
+      const url = sanitizeUrl(link.url);
       if (!url) continue;
 
       const a = document.createElement("a");
       a.href = url;
       a.target = "_blank";
       a.rel = "noopener noreferrer";
-      a.textContent = String(link?.label || "Open link");
+      a.textContent = link.label || "Open link";
       a.style.display = "inline-block";
       a.style.padding = "6px 10px";
       a.style.border = "1px solid #ddd";
@@ -136,6 +444,10 @@ function renderMatch(item: any, score: number) {
     }
   }
 
+  const scoredText = forError ? describeError(forError) : lastQuery?.errorText;
+  container.appendChild(whyDetails(m, scoredText || "", matchRes.debugExactCount, matchRes.language));
+  container.appendChild(feedbackRow(item, m.errorIndex));
+
   results.appendChild(container);
 }
 
@@ -144,42 +456,38 @@ function buildOutboundPayload(args: {
   source?: string;
   url?: string;
   pageTitle?: string;
-}) {
+  context?: PageContext;
+}): OutboundPayload {
   const normalized = args.errorText.replace(/\s+/g, " ").trim();
+  const ctx = args.context ?? {};
+  const o = ctx.order;
   return {
     error_text: normalized,
     source: args.source || "unknown",
     url: args.url || "",
     page_title: args.pageTitle || "",
     timestamp: new Date().toISOString(),
+    fc: ctx.fcFromPage ?? null,
+    country: ctx.countryFromPage ?? null,
+    shipping_method: ctx.shippingMethodFromPage ?? null,
+    order: o
+      ? {
+          order_id: o.orderId,
+          merchant: o.merchant,
+          postal_code: o.postalCode,
+          city: o.city,
+          payment_type: o.paymentType,
+          cod: o.cod,
+          po_box: o.poBox,
+          weight_kg: o.weightKg,
+          dimensions: o.dimensions,
+          quantity: o.quantity,
+        }
+      : null,
   };
 }
 
 
-function carrierFromMethod(method: any): string | null {
-  const t = String(method || "").toLowerCase();
-  if (!t) return null;
-
-  if (t.includes("dhl")) return "DHL";
-  if (t.includes("dpd")) return "DPD";
-  if (t.includes("gls")) return "GLS";
-  if (t.includes("ups")) return "UPS";
-  if (t.includes("colissimo")) return "Colissimo";
-  if (t.includes("mondial")) return "Mondial Relay";
-  if (t.includes("correos")) return "Correos";
-  if (t.includes("delivengo")) return "Delivengo";
-  if (t.includes("spring")) return "Spring";
-  if (t.includes("amazon")) return "Amazon";
-  if (t.includes("parcelforce") || t.includes("parcel force")) return "Parcelforce";
-  if (t.includes("royal mail")) return "Royal Mail";
-  if (t.includes("paack")) return "Paack";
-  if (t.includes("inpost") || t.includes("in post")) return "InPost";
-  if (t.includes("meineinkauf") || t.includes("mein einkauf") || t.includes("meinenkauf")) return "MeinEinkauf";
-
-  // Sendcloud is a label platform, not a carrier.
-  return null;
-}
-
 function setChip(id: string, text: string | null) {
   const el = document.getElementById(id) as HTMLElement | null;
   if (!el) return;
@@ -193,52 +501,253 @@ function setChip(id: string, text: string | null) {
   el.style.display = "inline-block";
 }
 
-function setPageContext(fc: any, country: any, shippingMethod: any) {
-  const fcVal = String(fc || "").trim();
-  const cVal = String(country || "").trim();
-  const mVal = String(shippingMethod || "").trim();
+function setPageContext(
+  fc: string | null | undefined,
+  country: string | null | undefined,
+  shippingMethod: string | null | undefined,
+  order: OrderContext | null = null
+) {
+  const fcVal = (fc ?? "").trim();
+  const cVal = (country ?? "").trim();
+  const mVal = (shippingMethod ?? "").trim();
 
   setChip("fcChip", fcVal ? "FC: " + fcVal : null);
   setChip("countryChip", cVal ? "Country: " + cVal : null);
 
-  const carrier = carrierFromMethod(mVal);
-  setChip("carrierChip", mVal ? "Carrier: " + mVal : null);
+  const carrier = findCarrier(mVal, { method: true });
+  setChip("methodChip", mVal ? "Method: " + mVal : null);
+  setChip("carrierChip", carrier ? "Carrier: " + carrier.name : null);
+  byId<HTMLElement>("carrierChip").title = carrier ? describeCarrier(carrier) : "";
+  setChip("orderChip", describeOrder(order) || null);
 }
 
+// Before anything is captured: the page's facts and the carrier limits the order already breaks.
+async function showPageFacts() {
+  const tab = await getActiveTab();
+  if (!tab?.id) return;
+  const res = await sendToTab(tab.id, "OLI_PING").catch(() => null);
+  if (!res || lastQuery) return;
+  setPageContext(res.fcFromPage, res.countryFromPage, res.shippingMethodFromPage, res.order);
+  setHints({ hints: carrierHints(contextFromPage(res)) });
+}
 
-function setHints(errorText: string, countryFromPage: any) {
+const SEVERITY_LABELS: Record<string, string> = {
+  critical: "Check first",
+  warning: "Watch out",
+  info: "Hint",
+};
+
+// Rules from kb/hints, already evaluated and ordered by the background.
+function setHints(matchRes: { hints: HintRule[] } | null) {
   const el = document.getElementById("hints");
   if (!el) return;
+  el.replaceChildren();
+
+  for (const h of matchRes?.hints ?? []) {
+    const severity = SEVERITY_LABELS[h.severity] ? h.severity : "info";
+    const div = document.createElement("div");
+    div.className = `hint ${severity}`;
+    div.dataset.hintId = String(h?.id ?? "");
 
-  const hints: string[] = [];
-  const e = String(errorText || "");
+    const label = document.createElement("b");
+    label.textContent = SEVERITY_LABELS[severity] + ":";
+    div.append(label, " " + String(h?.text ?? ""));
 
-  // Hint 1: Retry for transient errors
-  if (/(\bapi\b|\b500\b|\bserver\b)/i.test(e)) {
-    hints.push("<div class=\"hint\"><b>Hint:</b> Hit Retry (this often resolves transient API/server errors).</div>");
+    const url = h?.link ? sanitizeUrl(String(h.link.url || "")) : "";
+    if (url) {
+      const a = document.createElement("a");
+      a.href = url;
+      a.target = "_blank";
+      a.rel = "noopener noreferrer";
+      a.textContent = String(h.link?.label || "Open link");
+      div.append(" ", a);
+    }
+    el.appendChild(div);
   }
+}
+
+// Labels for capture.content.ts snippet sources.
+const SOURCE_LABELS: Record<string, string> = {
+  selection: "Selection",
+  issue_note: "Issue Note",
+  alert: "Alert",
+  body_line: "Page text",
+};
+
+function hideSnippetTabs() {
+  const bar = byId<HTMLDivElement>("snippetTabs");
+  bar.style.display = "none";
+  bar.innerHTML = "";
+}
 
-  // Hint 2: Check past orders for uncommon destinations
-  const allowed = new Set([
-    "united kingdom","uk","great britain","england",
-    "france","germany","italy","spain","poland","austria","netherlands","the netherlands","portugal"
-  ]);
+function showMatches(matchRes: MatchResponse, errorText: string, fc: string | null) {
+  const matches = matchRes.matches;
+  if (!matches.length) {
+    setText("status", "No match found.");
+    showNoMatchPanel(errorText, fc);
+    return;
+  }
+  setText("status", `Found ${matches.length} match(es).`);
+  for (const m of matches) renderMatch(m, matchRes);
+}
 
-  const cRaw = String(countryFromPage || "").trim();
-  const c = cRaw.toLowerCase();
+/**
+ * One tab per error snippet found on the page, each with its own matches.
+ * Choosing a tab shows its results and highlights the snippet on the page.
+ */
+function showSnippetTabs(
+  tabId: number,
+  snippets: CapturedSnippet[],
+  results: MatchResponse[],
+  ctx: PageContext,
+  onShow: (i: number) => void
+) {
+  hideSnippetTabs();
+  if (snippets.length < 2) return;
+  const bar = byId<HTMLDivElement>("snippetTabs");
+  bar.style.display = "flex";
+
+  const buttons = snippets.map((sn, i) => {
+    const b = document.createElement("button");
+    b.type = "button";
+    b.className = "btn-secondary";
+    const count = results[i].matches.length;
+    b.textContent = `${SOURCE_LABELS[sn.source] ?? sn.source} ${i + 1} (${count})`;
+    b.title = sn.location ? `${sn.text}\n\n${sn.location}` : sn.text;
+    b.addEventListener("click", () => {
+      select(i);
+      sendToTab(tabId, "OLI_HIGHLIGHT_SNIPPET", { id: sn.id, text: sn.text }).catch(() => {});
+    });
+    bar.appendChild(b);
+    return b;
+  });
 
-  if (cRaw && !allowed.has(c)) {
-    hints.push("<div class=\"hint\"><b>Hint:</b> Check past orders sent to this destination from the FC (same carrier/method) for a working precedent.</div>");
+  const select = (i: number) => {
+    buttons.forEach((b, j) => b.classList.toggle("selected", i === j));
+    clearResults();
+    lastQuery = { errorText: snippets[i].text, ctx };
+    setText("captured", snippets[i].text);
+    setHints(results[i]);
+    setText("kbinfo", kbInfoText(results[i]));
+    showMatches(results[i], snippets[i].text, ctx.fcFromPage ?? null);
+    onShow(i);
+  };
+  select(0);
+}
+
+// Bumped by every search; replies to an older one are dropped.
+let searchSeq = 0;
+
+// Manual search: the typed or pasted text, without page context.
+async function search(q: string) {
+  const seq = ++searchSeq;
+  if (!q) {
+    setText("status", "Type something to search.");
+    return;
+  }
+  clearResults();
+  hideSnippetTabs();
+  showOutcomeBar(null);
+  setText("captured", q);
+  setHints(null);
+
+  setPageContext(null, null, null);
+  setText("payload", "");
+  setText("status", "Searching knowledge base...");
+  try {
+    const matchRes = await matchError(q);
+    if (seq !== searchSeq) return;
+    setText("kbinfo", kbInfoText(matchRes));
+    setHints(matchRes);
+    showMatches(matchRes, q, null);
+  } catch (e: any) {
+    if (seq === searchSeq) setText("status", "Search failed: " + String(e?.message || e));
+  }
+}
+
+// Entry behind each result card, for the keyboard palette.
+const resultItems = new WeakMap<Element, KBItem>();
+let activeResult = -1;
+
+function resultCards() {
+  return Array.from(byId<HTMLDivElement>("results").children).filter((el) => resultItems.has(el)) as HTMLElement[];
+}
+
+function setActiveResult(i: number) {
+  const cards = resultCards();
+  activeResult = Math.max(-1, Math.min(i, cards.length - 1));
+  cards.forEach((c, j) => c.classList.toggle("active", j === activeResult));
+  cards[activeResult]?.scrollIntoView({ block: "nearest" });
+}
+
+async function copyFixSteps(item: KBItem) {
+  const steps = localize(item, settings.language).fixSteps.map((s, i) => `${i + 1}. ${s}`).join("\n");
+  if (!steps) {
+    setText("status", "This entry has no fix steps.");
+    return;
   }
+  try {
+    await navigator.clipboard.writeText(steps);
+    setText("status", `Copied the fix steps of "${item.title}".`);
+  } catch (e: any) {
+    setText("status", "Could not copy: " + String(e?.message || e));
+  }
+}
+
+function openFirstLink(item: KBItem) {
+  const url = (item.links ?? []).map((l) => sanitizeUrl(l.url)).find(Boolean);
+  if (!url) {
+    setText("status", "This entry has no link.");
+    return;
+  }
+  browser.tabs.create({ url });
+}
 
-  el.innerHTML = hints.length ? hints.join("") : "";
+// Up/Down pick a result, Enter copies its fix steps, Ctrl/Cmd+Enter opens its
+// (or the top result's) first link, and "/" jumps to the search box.
+function onPaletteKey(e: KeyboardEvent) {
+  const target = e.target as HTMLElement;
+  const inSearch = target.id === "searchInput";
+  if (!inSearch && target.closest("input, textarea, select, button, a, summary")) return;
+
+  if (e.key === "/" && !inSearch) {
+    e.preventDefault();
+    byId<HTMLInputElement>("searchInput").focus();
+  } else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+    if (!resultCards().length) return;
+    e.preventDefault();
+    setActiveResult(activeResult + (e.key === "ArrowDown" ? 1 : -1));
+  } else if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+    e.preventDefault();
+    const cards = resultCards();
+    const item = resultItems.get(cards[activeResult] ?? cards[0]);
+    if (item) openFirstLink(item);
+  } else if (e.key === "Enter" && activeResult >= 0) {
+    e.preventDefault();
+    const item = resultItems.get(resultCards()[activeResult]);
+    if (item) copyFixSteps(item);
+  }
 }
 
-async function run() {
+// selectionText: what the context menu was used on, searched for when the page can't be captured.
+async function run(opts: { selectionText?: string } = {}) {
   const btn = byId<HTMLButtonElement>("runBtn");
   btn.disabled = true;
+  try {
+    await captureAndMatch(opts);
+  } catch (e: any) {
+    setText("status", "Matching failed: " + String(e?.message || e));
+  } finally {
+    btn.disabled = false;
+  }
+}
 
+async function captureAndMatch(opts: { selectionText?: string }) {
+  // A search still waiting for its reply must not overwrite the capture's results.
+  searchSeq++;
   clearResults();
+  hideSnippetTabs();
+  showOutcomeBar(null);
   setText("status", "");
   setText("captured", "");
   setText("payload", "");
@@ -246,65 +755,129 @@ async function run() {
   const tab = await getActiveTab();
   if (!tab?.id) {
     setText("status", "No active tab.");
-    btn.disabled = false;
     return;
   }
 
   setText("status", "Capturing error text...");
-  const cap = await safeCapture(tab.id);
+  const cap = await safeCapture(tab.id, tab.url);
+
+  const fallback = String(opts.selectionText || "").trim();
+  if ((!cap.ok || !cap.res.snippets.length) && fallback) {
+    await search(fallback);
+    return;
+  }
 
   if (!cap.ok) {
     setText(
       "status",
       "Could not message the page. Most likely the content script is not injected. Error: " + cap.error
     );
-    btn.disabled = false;
     return;
   }
 
-  const res: any = cap.res;
-  if (!res?.ok) {
-    setText("status", `Capture ran but found nothing: ${res?.reason ?? "Unknown"}`);
-    btn.disabled = false;
+  const res = cap.res;
+  if (!res.snippets.length) {
+    setText("status", "Capture ran but found nothing: No error message found on page.");
     return;
   }
 
-  const errorText = String(res.errorText || "");
-  const fcFromPage = ((res as any)?.fcFromPage ?? null) as any;
+  const { errorText, fcFromPage } = res;
+  const ctx: PageContext = {
+    fcFromPage,
+    countryFromPage: res.countryFromPage,
+    shippingMethodFromPage: res.shippingMethodFromPage,
+    order: res.order,
+  };
 
   setText("captured", errorText);
-  setHints(errorText, (res as any)?.countryFromPage ?? (captureRes as any)?.countryFromPage ?? null);
+  setHints(null);
+
+  setPageContext(fcFromPage, ctx.countryFromPage, ctx.shippingMethodFromPage, ctx.order);
+
+  // Each snippet is an error of its own, with its own DB payload, history record and outcome.
+  const snippets = res.snippets;
+  const payloads = snippets.map((sn) =>
+    buildOutboundPayload({ errorText: sn.text, source: sn.source, url: tab.url, pageTitle: tab.title, context: ctx })
+  );
+  for (const payload of payloads) {
+    sendToBackground("OLI_OUTBOUND_SEND", { payload })
+      .then(showOutboundStatus)
+      .catch(() => {});
+  }
 
-  setPageContext((res as any)?.fcFromPage ?? null, (res as any)?.countryFromPage ?? null, (res as any)?.shippingMethodFromPage ?? null);
+  setText("status", "Searching knowledge base...");
+  const results: MatchResponse[] = [];
+  for (const sn of snippets) results.push(await matchError(sn.text, ctx));
+
+  const recordIds: (string | null)[] = [];
+  for (const [i, payload] of payloads.entries()) {
+    const record = await addCapture({
+      errorText: payload.error_text,
+      source: payload.source,
+      url: payload.url,
+      pageTitle: payload.page_title,
+      fc: fcFromPage,
+      country: res.countryFromPage,
+      shippingMethod: res.shippingMethodFromPage,
+      order: ctx.order,
+      matches: results[i].matches.map((m) => ({ id: m.item.id, title: m.item.title, score: m.score })),
+    }).catch((e) => {
+      console.warn("Could not save capture history:", e);
+      return null;
+    });
+    recordIds.push(record?.id ?? null);
+  }
 
+  const showCapture = (i: number) => {
+    setText("payload", JSON.stringify(payloads[i], null, 2));
+    const id = recordIds[i];
+    showOutcomeBar(id, id ? captureOutcomes.get(id) ?? null : null);
+  };
 
-  const payload = buildOutboundPayload({
-    errorText,
-    source: res.source,
-    url: tab.url,
-    pageTitle: tab.title,
-  });
+  if (snippets.length > 1) {
+    showSnippetTabs(tab.id, snippets, results, ctx, showCapture);
+  } else {
+    const matchRes = results[0];
+    setText("kbinfo", kbInfoText(matchRes));
+    setHints(matchRes);
+    lastQuery = { errorText, ctx };
+    showMatches(matchRes, errorText, fcFromPage);
+    showCapture(0);
+  }
+}
 
-  setText("payload", JSON.stringify(payload, null, 2));
+document.addEventListener("DOMContentLoaded", () => {
 
-  setText("status", "Searching knowledge base...");
-  const matchRes: any = await matchError(errorText);
-  setText("kbinfo", `KB source: ${matchRes?.kbSource ?? "unknown"}  Updated: ${matchRes?.kbUpdatedAt ?? "-"}`);
+  loadSettings().then((s) => (settings = s)).catch(() => {});
+  watchSettings((s) => (settings = s));
 
-  const matches = matchRes?.matches ?? [];
-  if (!matches.length) {
-    setText("status", "No match found.");
-    btn.disabled = false;
-    return;
-  }
+  document.getElementById("settingsBtn")?.addEventListener("click", () => {
+    browser.runtime.openOptionsPage();
+  });
 
-  setText("status", `Found ${matches.length} match(es).`);
-  for (const m of matches) renderMatch(m.item, m.score);
+  document.getElementById("historyBtn")?.addEventListener("click", () => {
+    browser.tabs.create({ url: browser.runtime.getURL("/history.html") });
+  });
 
-  btn.disabled = false;
-}
+  document.getElementById("triageBtn")?.addEventListener("click", () => {
+    browser.tabs.create({ url: browser.runtime.getURL("/triage.html") });
+  });
 
-document.addEventListener("DOMContentLoaded", () => {
+  document.getElementById("kbEditorBtn")?.addEventListener("click", () => {
+    browser.tabs.create({ url: browser.runtime.getURL("/kb-editor.html") });
+  });
+
+  byId<HTMLDivElement>("outcomeBar").addEventListener("click", async (e) => {
+    const outcome = (e.target as HTMLElement).closest<HTMLButtonElement>("button[data-outcome]")?.dataset.outcome as Outcome | undefined;
+    if (!outcome || !captureId) return;
+    try {
+      const record = await setCaptureOutcome(captureId, outcome);
+      captureOutcomes.set(record.id, record.outcome);
+      showOutcomeBar(record.id, record.outcome);
+    } catch (err: any) {
+      setText("status", "Could not save outcome: " + String(err?.message || err));
+    }
+  });
 
   // Payload dropdown
   const payloadToggle = document.getElementById("payloadToggle") as HTMLButtonElement | null;
@@ -315,57 +888,61 @@ document.addEventListener("DOMContentLoaded", () => {
     payloadWrap.style.display = open ? "none" : "block";
   });
 
-  byId<HTMLButtonElement>("runBtn").addEventListener("click", run);
+  byId<HTMLButtonElement>("runBtn").addEventListener("click", () => run());
 
   // Manual search
   const searchBtn = document.getElementById("searchBtn") as HTMLButtonElement | null;
   const searchInput = document.getElementById("searchInput") as HTMLInputElement | null;
 
-  async function runManualSearch() {
-    const q = (searchInput?.value || "").trim();
-    if (!q) {
-      setText("status", "Type something to search.");
-      return;
-    }
-    clearResults();
-    setText("captured", q);
-    setHints(q, null);
-
-    setPageContext(null, null, null);
-    setText("payload", "");
-    setText("status", "Searching knowledge base...");
-    const matchRes = await matchError(q, null);
-    setText("kbinfo", `KB source: ${matchRes?.kbSource ?? "unknown"}  Updated: ${matchRes?.kbUpdatedAt ?? "-"}`);
-    const matches = matchRes?.matches ?? [];
-    if (!matches.length) {
-      setText("status", "No match found.");
-      return;
-    }
-    setText("status", `Found ${matches.length} match(es).`);
-    for (const m of matches) renderMatch(m.item, m.score);
-  }
-
-  searchBtn?.addEventListener("click", runManualSearch);
+  // Enter searches unless the palette has a result selected; typing searches after a pause.
+  let typingTimer: ReturnType<typeof setTimeout> | undefined;
+  searchBtn?.addEventListener("click", () => search((searchInput?.value || "").trim()));
   searchInput?.addEventListener("keydown", (e) => {
-    if (e.key === "Enter") runManualSearch();
-  
+    if (e.key !== "Enter" || e.ctrlKey || e.metaKey || activeResult >= 0) return;
+    clearTimeout(typingTimer);
+    search(searchInput.value.trim());
+  });
+  searchInput?.addEventListener("input", () => {
+    clearTimeout(typingTimer);
+    setActiveResult(-1);
+    const q = searchInput.value.trim();
+    if (q.length >= SEARCH_AS_YOU_TYPE_MIN) typingTimer = setTimeout(() => search(q), SEARCH_DEBOUNCE_MS);
+  });
+  document.addEventListener("keydown", onPaletteKey);
 
   // Refresh KB button (no await)
   document.getElementById("refreshBtn")?.addEventListener("click", () => {
-    const statusEl = document.getElementById("status");
-    const kbinfoEl = document.getElementById("kbinfo");
-    if (statusEl) statusEl.textContent = "Refreshing KB...";
-    chrome.runtime.sendMessage({ type: "OLI_KB_CLEAR_CACHE" })
-      .then(() => chrome.runtime.sendMessage({ type: "OLI_KB_STATUS" }))
+    setText("status", "Refreshing KB...");
+    sendToBackground("OLI_KB_REFRESH")
       .then((st) => {
-        if (kbinfoEl) kbinfoEl.textContent = `KB source: ${st?.kbSource ?? "unknown"}  Updated: ${st?.kbUpdatedAt ?? "-"}`;
-        if (statusEl) statusEl.textContent = "KB refreshed.";
+        setText("kbinfo", kbInfoText(st));
+        setText("status", st.kbStale ? "KB refresh failed, keeping the last good copy." : "KB refreshed.");
       })
-      .catch((e) => {
-        if (statusEl) statusEl.textContent = "Failed to refresh KB: " + String(e?.message || e);
+      .catch((e: any) => {
+        setText("status", "Failed to refresh KB: " + String(e?.message || e));
       });
   });
 
-});
+  sendToBackground("OLI_KB_STATUS")
+    .then((st) => setText("kbinfo", kbInfoText(st)))
+    .catch(() => {});
+
+  // A capture the background ran while the popup couldn't open is seen now.
+  getActiveTab()
+    .then((tab) => (tab?.id != null ? clearTabFlag(tab.id) : undefined))
+    .catch(() => {});
+
+  // Opened by the capture shortcut or the context menu: capture right away. Otherwise, ready to search.
+  takePopupAction()
+    .then((action) => {
+      if (action?.type === "capture") run({ selectionText: action.selectionText });
+      else showPageFacts().catch(() => {});
+    })
+    .catch(() => {});
+  searchInput?.focus();
+
+  sendToBackground("OLI_OUTBOUND_STATUS")
+    .then(showOutboundStatus)
+    .catch(() => {});
 
 });
@@ -0,0 +1,235 @@
+import type { ScoredMatch } from "@/utils/matcher";
+import { sendToBackground } from "@/utils/messages";
+import {
+  groupTriage,
+  parseTriageRows,
+  triageCsv,
+  triageJson,
+  type TriageCluster,
+  type TriageResult,
+  type TriageRow,
+} from "@/utils/triage";
+
+function byId<T extends HTMLElement>(id: string) {
+  const el = document.getElementById(id);
+  if (!el) throw new Error(`Missing element: #${id}`);
+  return el as T;
+}
+
+function setStatus(text: string) {
+  byId<HTMLElement>("status").textContent = text;
+}
+
+// Rows are matched in chunks so the status can show progress on long lists.
+const CHUNK_ROWS = 50;
+const MAX_ROWS = 2000;
+// Under this a group's lowest score is flagged; see the score bands in utils/matcher.ts.
+const CONFIDENT_SCORE = 0.85;
+
+let rows: TriageRow[] = [];
+let matches: ScoredMatch[][] = [];
+let kbVersion: string | undefined;
+let result: TriageResult | null = null;
+
+function pct(score: number) {
+  return `${Math.round(score * 100)}%`;
+}
+
+function cell(text: string, className?: string) {
+  const td = document.createElement("td");
+  td.textContent = text;
+  if (className) td.className = className;
+  return td;
+}
+
+function smallButton(text: string, onClick: () => void) {
+  const b = document.createElement("button");
+  b.type = "button";
+  b.className = "small";
+  b.textContent = text;
+  b.addEventListener("click", onClick);
+  return b;
+}
+
+async function copy(text: string, what: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+    setStatus(`Copied ${what}.`);
+  } catch (e: any) {
+    setStatus("Copy failed: " + String(e?.message || e));
+  }
+}
+
+function orderLabel(r: TriageRow) {
+  return r.orderId || `line ${r.line}`;
+}
+
+function clusterRow(c: TriageCluster, n: number) {
+  const tr = document.createElement("tr");
+  tr.appendChild(cell(String(n + 1), "num"));
+
+  const entry = document.createElement("td");
+  const title = document.createElement("div");
+  title.textContent = c.item.title;
+  const id = document.createElement("div");
+  id.className = "id";
+  id.textContent = c.item.id;
+  entry.append(title, id);
+  tr.appendChild(entry);
+
+  // Order ids with their scores; the error text is on hover.
+  const orders = document.createElement("td");
+  const details = document.createElement("details");
+  const summary = document.createElement("summary");
+  summary.textContent = `${c.orders.length} order(s)`;
+  const list = document.createElement("ul");
+  list.className = "orders";
+  for (const o of c.orders) {
+    const li = document.createElement("li");
+    li.textContent = `${orderLabel(o)} (${pct(o.score)})`;
+    li.title = o.errorText;
+    if (o.score < CONFIDENT_SCORE) li.className = "low";
+    list.appendChild(li);
+  }
+  details.append(summary, list);
+  const ids = c.orders.map((o) => o.orderId).filter(Boolean);
+  orders.appendChild(details);
+  if (ids.length) orders.appendChild(smallButton("Copy order IDs", () => copy(ids.join("\n"), `${ids.length} order ID(s)`)));
+  tr.appendChild(orders);
+
+  const confidence = cell(`${pct(c.meanScore)} (${pct(c.minScore)})`, "num");
+  if (c.minScore < CONFIDENT_SCORE) confidence.classList.add("low");
+  tr.appendChild(confidence);
+
+  const fix = document.createElement("td");
+  const steps = document.createElement("ol");
+  steps.className = "steps";
+  for (const s of c.item.fixSteps) {
+    const li = document.createElement("li");
+    li.textContent = s;
+    steps.appendChild(li);
+  }
+  fix.appendChild(steps);
+  tr.appendChild(fix);
+  return tr;
+}
+
+function unmatchedRow(r: TriageRow) {
+  const tr = document.createElement("tr");
+  tr.appendChild(cell(String(r.line), "num"));
+  tr.appendChild(cell(r.orderId));
+  tr.appendChild(cell(r.fc ?? ""));
+  tr.appendChild(cell(r.country ?? ""));
+  tr.appendChild(cell(r.shippingMethod ?? ""));
+  tr.appendChild(cell(r.errorText, "error"));
+
+  const td = document.createElement("td");
+  td.appendChild(
+    smallButton("Open in KB editor", () => {
+      const params = new URLSearchParams({ error: r.errorText, ...(r.fc ? { fc: r.fc } : {}) });
+      browser.tabs.create({ url: browser.runtime.getURL(`/kb-editor.html?${params}`) });
+    })
+  );
+  tr.appendChild(td);
+  return tr;
+}
+
+// Group again with the current minimum confidence; no new matching needed.
+function render() {
+  const minScore = Number(byId<HTMLSelectElement>("minConfidence").value) || 0;
+  result = groupTriage(rows, matches, minScore);
+
+  byId<HTMLTableSectionElement>("clusterRows").replaceChildren(...result.clusters.map(clusterRow));
+  byId<HTMLTableSectionElement>("unmatchedRows").replaceChildren(...result.unmatched.map(unmatchedRow));
+  byId<HTMLButtonElement>("csvBtn").disabled = !rows.length;
+  byId<HTMLButtonElement>("jsonBtn").disabled = !rows.length;
+
+  if (rows.length) {
+    const grouped = rows.length - result.unmatched.length;
+    setStatus(
+      `${rows.length} order(s): ${grouped} in ${result.clusters.length} group(s), ${result.unmatched.length} unmatched.`
+    );
+  }
+}
+
+function showProblems(problems: string[]) {
+  const list = byId<HTMLUListElement>("problems");
+  list.replaceChildren(
+    ...problems.map((p) => {
+      const li = document.createElement("li");
+      li.textContent = p;
+      return li;
+    })
+  );
+}
+
+async function matchAll() {
+  const btn = byId<HTMLButtonElement>("matchBtn");
+  const parsed = parseTriageRows(byId<HTMLTextAreaElement>("listText").value);
+  const problems = parsed.problems;
+  if (parsed.rows.length > MAX_ROWS) problems.push(`Only the first ${MAX_ROWS} of ${parsed.rows.length} orders are matched.`);
+  showProblems(problems);
+  if (!parsed.rows.length) {
+    setStatus("Nothing to match: paste a list or open a CSV file.");
+    return;
+  }
+
+  btn.disabled = true;
+  const next = parsed.rows.slice(0, MAX_ROWS);
+  const found: ScoredMatch[][] = [];
+  try {
+    for (let i = 0; i < next.length; i += CHUNK_ROWS) {
+      setStatus(`Matching ${i + 1}-${Math.min(i + CHUNK_ROWS, next.length)} of ${next.length}...`);
+      const res = await sendToBackground("OLI_MATCH_BATCH", {
+        queries: next.slice(i, i + CHUNK_ROWS).map((r) => ({
+          errorText: r.errorText,
+          fcFromPage: r.fc,
+          countryFromPage: r.country,
+          shippingMethodFromPage: r.shippingMethod,
+        })),
+      });
+      found.push(...res.results.map((x) => x.matches));
+      kbVersion = res.kbVersion;
+    }
+    rows = next;
+    matches = found;
+    render();
+  } catch (e: any) {
+    setStatus("Matching failed: " + String(e?.message || e));
+  } finally {
+    btn.disabled = false;
+  }
+}
+
+function download(text: string, type: string, ext: string) {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(new Blob([text], { type }));
+  a.download = `oli-triage-${new Date().toISOString().slice(0, 10)}.${ext}`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+}
+
+document.addEventListener("DOMContentLoaded", () => {
+  byId<HTMLButtonElement>("matchBtn").addEventListener("click", () => matchAll());
+  byId<HTMLSelectElement>("minConfidence").addEventListener("change", render);
+
+  const file = byId<HTMLInputElement>("fileInput");
+  file.addEventListener("change", async () => {
+    const f = file.files?.[0];
+    if (!f) return;
+    try {
+      byId<HTMLTextAreaElement>("listText").value = await f.text();
+      file.value = "";
+      await matchAll();
+    } catch (e: any) {
+      setStatus("Could not read the file: " + String(e?.message || e));
+    }
+  });
+
+  byId<HTMLButtonElement>("csvBtn").addEventListener("click", () => {
+    if (result) download(triageCsv(result), "text/csv", "csv");
+  });
+  byId<HTMLButtonElement>("jsonBtn").addEventListener("click", () => {
+    if (result) download(triageJson(result, kbVersion), "application/json", "json");
+  });
+});
@@ -0,0 +1,103 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import yaml from "js-yaml";
+import { createJiti } from "jiti";
+import { loadEntries } from "./build-kb.mjs";
+
+const FIXTURES_FILE = path.resolve("scripts/fixtures/matcher.yml");
+
+const jiti = createJiti(import.meta.url);
+const { matchKB } = await jiti.import("../utils/matcher.ts");
+const { compileKB } = await jiti.import("../utils/kbCompiled.ts");
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? Number(process.argv[i + 1]) : fallback;
+}
+
+// Same numbers on every run, so timings are comparable between commits.
+function random(seed) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function escapeRegex(s) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * A KB of `size` entries grown from the real ones the way Notion imports grow
+ * it: near-duplicate titles with a few other words from the KB mixed in, the
+ * title as a literal pattern, and the FCs of real entries.
+ */
+function syntheticKB(entries, size) {
+  const rnd = random(42);
+  const pick = (list) => list[Math.floor(rnd() * list.length)];
+  const words = Array.from(new Set(entries.flatMap((e) => e.title.split(/\s+/)).filter((w) => w.length > 3)));
+  const fcs = entries.map((e) => e.fc).filter(Boolean);
+
+  return Array.from({ length: size }, (_, i) => {
+    const base = entries[i % entries.length];
+    if (i < entries.length) return base;
+    const extra = Array.from({ length: 2 + Math.floor(rnd() * 3) }, () => pick(words)).join(" ");
+    const title = `${base.title} ${extra} #${i}`;
+    return {
+      ...base,
+      id: `${base.id}_${i}`,
+      title,
+      fc: pick(fcs),
+      patterns: [escapeRegex(title), ...base.patterns.slice(1)],
+    };
+  });
+}
+
+function ms(x) {
+  return `${x.toFixed(2)} ms`;
+}
+
+function percentile(sorted, p) {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+async function main() {
+  const size = arg("entries", 10000);
+  const rounds = arg("rounds", 5);
+  const entries = await loadEntries();
+  const fixtures = yaml.load(await fs.readFile(FIXTURES_FILE, "utf8"));
+  const queries = [
+    ...fixtures.map((fx) => ({ errorText: fx.error, context: fx.context || {} })),
+    ...entries.flatMap((e) => e.examples ?? []).map((errorText) => ({ errorText, context: {} })),
+  ];
+
+  const items = syntheticKB(entries, size);
+  let t = performance.now();
+  const compiled = compileKB(items);
+  const compileMs = performance.now() - t;
+
+  const times = [];
+  let matched = 0;
+  for (let r = 0; r < rounds; r++) {
+    for (const q of queries) {
+      t = performance.now();
+      const res = matchKB(items, q, { compiled });
+      times.push(performance.now() - t);
+      if (r === 0 && res.matches.length) matched++;
+    }
+  }
+  times.sort((a, b) => a - b);
+  const mean = times.reduce((n, x) => n + x, 0) / times.length;
+
+  console.log(`KB: ${items.length} entries (${entries.length} real), ${queries.length} errors x ${rounds} rounds`);
+  console.log(`Compile: ${ms(compileMs)}, heap ${Math.round(process.memoryUsage().heapUsed / 1048576)} MB`);
+  console.log(`Match: mean ${ms(mean)}, p50 ${ms(percentile(times, 0.5))}, p95 ${ms(percentile(times, 0.95))}, max ${ms(times[times.length - 1])}`);
+  console.log(`Errors with a match: ${matched}/${queries.length}`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,9 +1,16 @@
+import crypto from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { createJiti } from "jiti";
 import yaml from "js-yaml";
 
-const KB_DIR = path.resolve("kb/errors");
+export const KB_DIR = path.resolve("kb/errors");
+export const HINTS_DIR = path.resolve("kb/hints");
 const OUT_FILE = path.resolve("public/errors.json");
+const HINTS_FILE = path.resolve("public/hints.json");
+const MANIFEST_FILE = path.resolve("public/kb-manifest.json");
+const SCHEMA_VERSION = 1;
 
 function asArray(v) {
   if (!v) return [];
@@ -14,7 +21,74 @@ function norm(s) {
   return String(s ?? "").replace(/\s+/g, " ").trim();
 }
 
-function validate(entry, filename) {
+const jiti = createJiti(import.meta.url);
+// Shared with the extension's check of a downloaded KB.
+const { WHEN_LIST_KEYS, WHEN_FLAG_KEYS, WHEN_NUMBER_KEYS } = await jiti.import("../utils/kbSchema.ts");
+
+function validateWhen(when, filename) {
+  if (when == null) return undefined;
+  if (typeof when !== "object" || Array.isArray(when)) throw new Error(`Invalid when in ${filename}: expected a mapping`);
+
+  const out = {};
+  for (const [key, value] of Object.entries(when)) {
+    if (WHEN_FLAG_KEYS.includes(key)) {
+      if (typeof value !== "boolean") throw new Error(`Invalid when.${key} in ${filename}: expected true or false`);
+      out[key] = value;
+      continue;
+    }
+    if (WHEN_NUMBER_KEYS.includes(key)) {
+      if (typeof value !== "number" || !(value >= 0)) throw new Error(`Invalid when.${key} in ${filename}: expected a number`);
+      out[key] = value;
+      continue;
+    }
+    if (!WHEN_LIST_KEYS.includes(key)) throw new Error(`Unknown condition when.${key} in ${filename}`);
+
+    const values = asArray(value).map(norm).filter(Boolean);
+    if (!values.length) throw new Error(`Empty when.${key} in ${filename}`);
+    if (key === "postalCodeRange") {
+      for (const r of values) {
+        const m = r.match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+        if (!m || (m[2] && (m[2].length !== m[1].length || Number(m[2]) < Number(m[1])))) {
+          throw new Error(`Invalid when.postalCodeRange '${r}' in ${filename}: expected '25020' or '9000-9399'`);
+        }
+      }
+    }
+    out[key] = values;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+// utils/language.ts LANGUAGES, without English: the entry itself is the English text.
+const TRANSLATION_LANGUAGES = ["de", "es", "fr", "it"];
+
+function validateTranslations(v, filename) {
+  if (v == null) return undefined;
+  if (typeof v !== "object" || Array.isArray(v)) throw new Error(`Invalid translations in ${filename}: expected a mapping`);
+
+  const out = {};
+  for (const [lang, t] of Object.entries(v)) {
+    if (!TRANSLATION_LANGUAGES.includes(lang)) {
+      throw new Error(`Unknown translation language '${lang}' in ${filename}: expected ${TRANSLATION_LANGUAGES.join(", ")}`);
+    }
+    const title = norm(t?.title);
+    const fixSteps = asArray(t?.fixSteps).map(norm).filter(Boolean);
+    if (!title && !fixSteps.length) throw new Error(`Empty translations.${lang} in ${filename}: give a title, fixSteps or both`);
+    out[lang] = { title: title || undefined, fixSteps: fixSteps.length ? fixSteps : undefined };
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+// Regression strings for scripts/check-examples.mjs; they are not published.
+function validateExamples(v, key, filename) {
+  if (v == null) return undefined;
+  if (!Array.isArray(v) || v.some((x) => typeof x !== "string")) {
+    throw new Error(`Invalid ${key} in ${filename}: expected a list of strings`);
+  }
+  const out = v.map(norm).filter(Boolean);
+  return out.length ? out : undefined;
+}
+
+export function validate(entry, filename) {
   const id = norm(entry.id);
   const title = norm(entry.title);
   const patterns = asArray(entry.patterns).map(norm).filter(Boolean);
@@ -39,37 +113,120 @@ function validate(entry, filename) {
     fixSteps,
     tags: asArray(entry.tags).map(norm).filter(Boolean),
     links,
+    when: validateWhen(entry.when, filename),
+    translations: validateTranslations(entry.translations, filename),
+    examples: validateExamples(entry.examples, "examples", filename),
+    counterExamples: validateExamples(entry.counterExamples, "counterExamples", filename),
   };
 }
 
-async function main() {
-  await fs.mkdir(path.dirname(OUT_FILE), { recursive: true });
+const HINT_SEVERITIES = ["info", "warning", "critical"];
+
+export function validateHint(hint, filename) {
+  const id = norm(hint.id);
+  const text = norm(hint.text);
+  const severity = norm(hint.severity || "info");
+
+  if (!id) throw new Error(`Missing id in ${filename}`);
+  if (!text) throw new Error(`Missing text in ${filename}`);
+  if (!HINT_SEVERITIES.includes(severity)) {
+    throw new Error(`Invalid severity '${severity}' in ${filename}: expected ${HINT_SEVERITIES.join(", ")}`);
+  }
+  if (hint.when == null || typeof hint.when !== "object" || Array.isArray(hint.when)) {
+    throw new Error(`Missing when in ${filename}: a hint without conditions would show on every error`);
+  }
+
+  // errorPattern and uncommonDestination are hint-only; the rest are the same conditions as KB entries.
+  const { errorPattern, uncommonDestination, ...rest } = hint.when;
+  const when = { ...validateWhen(rest, filename) };
+  if (errorPattern != null) {
+    const patterns = asArray(errorPattern).map(norm).filter(Boolean);
+    for (const p of patterns) {
+      try {
+        new RegExp(p, "i");
+      } catch {
+        throw new Error(`Invalid when.errorPattern '${p}' in ${filename}: not a valid regex`);
+      }
+    }
+    if (patterns.length) when.errorPattern = patterns;
+  }
+  if (uncommonDestination != null) {
+    if (typeof uncommonDestination !== "boolean") {
+      throw new Error(`Invalid when.uncommonDestination in ${filename}: expected true or false`);
+    }
+    when.uncommonDestination = uncommonDestination;
+  }
+  if (!Object.keys(when).length) throw new Error(`Empty when in ${filename}`);
 
-  const files = (await fs.readdir(KB_DIR))
+  const url = norm(hint.link?.url);
+  return {
+    id,
+    severity,
+    text,
+    link: url ? { label: norm(hint.link.label || "Open"), url } : undefined,
+    when,
+  };
+}
+
+async function loadYamlDir(dir, check) {
+  const files = (await fs.readdir(dir))
     .filter((f) => f.endsWith(".yml") || f.endsWith(".yaml"))
     .sort();
 
-  const items = [];
+  const out = [];
   const seen = new Set();
-
   for (const f of files) {
-    const raw = await fs.readFile(path.join(KB_DIR, f), "utf8");
-    const parsed = yaml.load(raw);
-
+    const parsed = yaml.load(await fs.readFile(path.join(dir, f), "utf8"));
     if (!parsed || typeof parsed !== "object") throw new Error(`Invalid YAML in ${f}`);
 
-    const item = validate(parsed, f);
+    const item = check(parsed, f);
     if (seen.has(item.id)) throw new Error(`Duplicate id '${item.id}' in ${f}`);
     seen.add(item.id);
-
-    items.push(item);
+    out.push(item);
   }
+  return out;
+}
 
-  await fs.writeFile(OUT_FILE, JSON.stringify(items, null, 2), "utf8");
-  console.log(`Built KB: ${items.length} entries written to ${OUT_FILE}`);
+// kb/hints is optional.
+export async function loadHints() {
+  if (!(await fs.stat(HINTS_DIR).catch(() => null))) return [];
+  return loadYamlDir(HINTS_DIR, validateHint);
 }
 
-main().catch((e) => {
-  console.error(e);
-  process.exit(1);
-});
+export async function loadEntries() {
+  return loadYamlDir(KB_DIR, validate);
+}
+
+async function main() {
+  await fs.mkdir(path.dirname(OUT_FILE), { recursive: true });
+
+  const items = (await loadEntries()).map(({ examples, counterExamples, ...item }) => item);
+  const json = JSON.stringify(items, null, 2);
+  await fs.writeFile(OUT_FILE, json, "utf8");
+
+  const hints = await loadHints();
+  const hintsJson = JSON.stringify(hints, null, 2);
+  await fs.writeFile(HINTS_FILE, hintsJson, "utf8");
+
+  // The extension checks each download against these hashes before replacing its cached KB.
+  const sha256 = crypto.createHash("sha256").update(json, "utf8").digest("hex");
+  const hintsSha256 = crypto.createHash("sha256").update(hintsJson, "utf8").digest("hex");
+  const manifest = {
+    schemaVersion: SCHEMA_VERSION,
+    version: sha256.slice(0, 12),
+    sha256,
+    count: items.length,
+    hints: { sha256: hintsSha256, count: hints.length },
+  };
+  await fs.writeFile(MANIFEST_FILE, JSON.stringify(manifest, null, 2) + "\n", "utf8");
+
+  console.log(`Built KB: ${items.length} entries written to ${OUT_FILE} (version ${manifest.version})`);
+  console.log(`Built hints: ${hints.length} written to ${HINTS_FILE}`);
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
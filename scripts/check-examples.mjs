@@ -0,0 +1,93 @@
+// Runs every KB entry's `examples:` and `counterExamples:` through the matcher.
+//
+//   node scripts/check-examples.mjs [--all]
+//
+// An example passes when its entry ranks first (ties allowed); a counter-example
+// passes when its entry does not. --all also lists entries with nothing wrong.
+import { createJiti } from "jiti";
+import { loadEntries } from "./build-kb.mjs";
+
+const jiti = createJiti(import.meta.url);
+const { matchKB } = await jiti.import("../utils/matcher.ts");
+
+function leadersOf(matches) {
+  const top = matches[0];
+  if (!top) return [];
+  return matches.filter(
+    (m) => m.score === top.score && (m.conditions?.length ?? 0) === (top.conditions?.length ?? 0)
+  );
+}
+
+// Own score minus the best other entry's; negative when something else wins.
+function margin(matches, id) {
+  const own = matches.find((m) => m.item.id === id)?.score ?? 0;
+  const other = matches.find((m) => m.item.id !== id)?.score ?? 0;
+  return own - other;
+}
+
+function pct(n, d) {
+  return d ? `${Math.round((n / d) * 100)}%` : "-";
+}
+
+function fmt(x) {
+  return (x >= 0 ? "+" : "") + x.toFixed(2);
+}
+
+function short(s, max = 70) {
+  return s.length > max ? s.slice(0, max - 3) + "..." : s;
+}
+
+async function main() {
+  const showAll = process.argv.includes("--all");
+  const items = await loadEntries();
+  const stats = new Map(items.map((it) => [it.id, { tp: 0, fn: 0, fp: 0, lines: [] }]));
+
+  let total = 0;
+  let failed = 0;
+  for (const entry of items) {
+    const own = stats.get(entry.id);
+
+    for (const ex of entry.examples ?? []) {
+      total++;
+      const { matches } = matchKB(items, { errorText: ex }, { limit: items.length });
+      const leaders = leadersOf(matches);
+      const m = margin(matches, entry.id);
+      if (leaders.some((l) => l.item.id === entry.id)) {
+        own.tp++;
+        if (leaders.length > 1) own.lines.push(`  tie   ${short(ex)}\n        with ${leaders.filter((l) => l.item.id !== entry.id).map((l) => l.item.id).join(", ")}`);
+        continue;
+      }
+      failed++;
+      own.fn++;
+      const thief = leaders[0]?.item.id;
+      if (thief) stats.get(thief).fp++;
+      own.lines.push(`  miss  ${short(ex)}\n        stolen by ${thief ?? "(no match)"}, margin ${fmt(m)}`);
+    }
+
+    for (const ex of entry.counterExamples ?? []) {
+      total++;
+      const { matches } = matchKB(items, { errorText: ex }, { limit: items.length });
+      if (!leadersOf(matches).some((l) => l.item.id === entry.id)) continue;
+      failed++;
+      own.fp++;
+      own.lines.push(`  wrong ${short(ex)}\n        counter-example ranks this entry first, margin ${fmt(margin(matches, entry.id))}`);
+    }
+  }
+
+  for (const entry of items) {
+    const s = stats.get(entry.id);
+    const checked = s.tp + s.fn + s.fp;
+    if (!checked || (!showAll && !s.fn && !s.fp)) continue;
+    console.log(`${entry.id}\n  precision ${pct(s.tp, s.tp + s.fp)}  recall ${pct(s.tp, s.tp + s.fn)}`);
+    for (const line of s.lines) console.log(line);
+  }
+
+  const withExamples = items.filter((it) => it.examples?.length || it.counterExamples?.length).length;
+  console.log(`KB examples: ${total - failed}/${total} passed across ${withExamples} entries`);
+  if (failed) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import yaml from "js-yaml";
+import { createJiti } from "jiti";
+import { loadEntries } from "./build-kb.mjs";
+
+const FIXTURES_FILE = path.resolve("scripts/fixtures/matcher.yml");
+
+const jiti = createJiti(import.meta.url);
+const { matchKB } = await jiti.import("../utils/matcher.ts");
+
+// A fixture passes when the expected id ranks first (ties on score and satisfied
+// conditions allowed), or when nothing matches and the fixture expects null.
+// Multi-error fixtures list every id that must be returned under `expectAll`.
+function check(items, fx) {
+  const { matches } = matchKB(items, { errorText: fx.error, context: fx.context || {} });
+  if (Array.isArray(fx.expectAll)) {
+    const ids = matches.map((m) => m.item.id);
+    const missing = fx.expectAll.filter((id) => !ids.includes(id));
+    return missing.length ? `missing '${missing.join("', '")}'` : null;
+  }
+  if (fx.expect === null) {
+    return matches.length ? `expected no match, got '${matches[0].item.id}'` : null;
+  }
+  if (!matches.length) return "expected a match, got none";
+  const top = matches[0];
+  const leaders = matches
+    .filter((m) => m.score === top.score && (m.conditions?.length ?? 0) === (top.conditions?.length ?? 0))
+    .map((m) => m.item.id);
+  return leaders.includes(fx.expect) ? null : `expected '${fx.expect}', got '${leaders.join("', '")}'`;
+}
+
+async function main() {
+  const items = await loadEntries();
+  const fixtures = yaml.load(await fs.readFile(FIXTURES_FILE, "utf8"));
+  if (!Array.isArray(fixtures)) throw new Error(`Invalid fixtures in ${FIXTURES_FILE}`);
+
+  let failed = 0;
+  for (const fx of fixtures) {
+    const problem = check(items, fx);
+    if (!problem) continue;
+    failed++;
+    console.error(`FAIL ${String(fx.error).slice(0, 80)}\n     ${problem}`);
+  }
+
+  console.log(`Matcher fixtures: ${fixtures.length - failed}/${fixtures.length} passed`);
+  if (failed) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,119 @@
+import { createJiti } from "jiti";
+
+// utils/outbound.ts against an in-memory storage.local and a scripted fetch.
+const storage = new Map();
+globalThis.browser = {
+  storage: {
+    local: {
+      async get(key) {
+        return storage.has(key) ? { [key]: structuredClone(storage.get(key)) } : {};
+      },
+      async set(items) {
+        for (const [k, v] of Object.entries(items)) storage.set(k, structuredClone(v));
+      },
+      async remove(key) {
+        storage.delete(key);
+      },
+    },
+  },
+};
+
+// Each call takes the next reply: a status code, or an Error to throw.
+let replies = [];
+let calls = [];
+globalThis.fetch = async (url, init) => {
+  calls.push({ url, init, queued: storage.get("outbound_queue")?.length ?? 0 });
+  const reply = replies.shift() ?? 200;
+  if (reply instanceof Error) throw reply;
+  return { ok: reply < 300, status: reply };
+};
+
+const jiti = createJiti(import.meta.url);
+const { enqueueOutbound, flushOutbound, outboundStatus } = await jiti.import("../utils/outbound.ts");
+
+const WEBHOOK = {
+  sink: "webhook",
+  webhookUrl: "https://sink.example/oli",
+  webhookHeaderName: "Authorization",
+  webhookHeaderValue: "Bearer secret",
+};
+
+async function reset(n, nextReplies) {
+  storage.clear();
+  replies = nextReplies;
+  calls = [];
+  for (let i = 0; i < n; i++) await enqueueOutbound({ error_text: `error ${i}`, source: "check", url: "", page_title: "", timestamp: "" });
+}
+
+function queue() {
+  return storage.get("outbound_queue") ?? [];
+}
+
+const checks = [
+  // A dead endpoint costs one request per flush, not one per record.
+  ["Dead webhook stops at the first failure", async () => {
+    await reset(3, [new Error("connection refused")]);
+    await flushOutbound(WEBHOOK);
+    if (calls.length !== 1) return `expected 1 request, got ${calls.length}`;
+    const q = queue();
+    if (q.length !== 3) return `expected 3 records kept, got ${q.length}`;
+    if (q[0].attempts !== 1 || q[0].lastError !== "connection refused") return `first record not marked failed: ${JSON.stringify(q[0])}`;
+    if (q[1].attempts || q[2].attempts) return "records after the failure were counted as attempts";
+    return null;
+  }],
+
+  // The queue in storage already lacks record 0 while record 1 is being sent.
+  ["Queue saved after each delivery", async () => {
+    await reset(3, [200, 503]);
+    await flushOutbound(WEBHOOK);
+    if (calls.map((c) => c.queued).join() !== "3,2") return `queue lengths seen by the requests: ${calls.map((c) => c.queued).join()}`;
+    const q = queue();
+    if (q.length !== 2 || q[0].payload.error_text !== "error 1") return `expected errors 1 and 2 queued, got ${q.map((r) => r.payload.error_text).join()}`;
+    return q[0].lastError === "Webhook answered HTTP 503" ? null : `unexpected lastError ${q[0].lastError}`;
+  }],
+
+  ["Backoff skips the failed record until forced", async () => {
+    await reset(2, [new Error("down"), 200, 200]);
+    await flushOutbound(WEBHOOK);
+    await flushOutbound(WEBHOOK);
+    if (queue().length !== 1 || calls.length !== 2) return `expected 1 record left after 2 requests, got ${queue().length} after ${calls.length}`;
+    await flushOutbound(WEBHOOK, { force: true });
+    const st = await outboundStatus(WEBHOOK);
+    return st.pending === 0 ? null : `expected an empty queue after a forced flush, got ${st.pending}`;
+  }],
+
+  ["Webhook request carries the auth header and a timeout", async () => {
+    await reset(1, [200]);
+    await flushOutbound(WEBHOOK);
+    const init = calls[0]?.init;
+    if (init?.headers?.Authorization !== "Bearer secret") return "auth header missing";
+    return init.signal instanceof AbortSignal ? null : "no abort signal on the request";
+  }],
+
+  ["Full NDJSON buffer keeps the record queued", async () => {
+    await reset(1, []);
+    storage.set("outbound_export", "x".repeat(2_000_000));
+    await flushOutbound({ sink: "file" });
+    const q = queue();
+    if (q.length !== 1 || !/full/.test(q[0].lastError ?? "")) return `expected the record kept with a full-buffer error, got ${JSON.stringify(q)}`;
+    return storage.get("outbound_export").length === 2_000_000 ? null : "buffer grew past the cap";
+  }],
+];
+
+async function main() {
+  let failed = 0;
+  for (const [name, check] of checks) {
+    const problem = await check();
+    if (!problem) continue;
+    failed++;
+    console.error(`FAIL ${name}\n     ${problem}`);
+  }
+
+  console.log(`Outbound checks: ${checks.length - failed}/${checks.length} passed`);
+  if (failed) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import yaml from "js-yaml";
+import { createJiti } from "jiti";
+
+const FIXTURES_FILE = path.resolve("scripts/fixtures/triage.yml");
+
+const jiti = createJiti(import.meta.url);
+const { groupTriage, parseTriageRows } = await jiti.import("../utils/triage.ts");
+
+// Compares the fields the fixture lists for each row.
+function checkRows(fx) {
+  const { rows, problems } = parseTriageRows(fx.csv);
+  if (rows.length !== fx.rows.length) return `expected ${fx.rows.length} row(s), got ${rows.length}`;
+  for (const [i, want] of fx.rows.entries()) {
+    for (const [key, value] of Object.entries(want)) {
+      if (rows[i][key] !== value) return `row ${i + 1}: expected ${key} ${JSON.stringify(value)}, got ${JSON.stringify(rows[i][key])}`;
+    }
+  }
+  if ((fx.problems ?? 0) !== problems.length) return `expected ${fx.problems ?? 0} problem(s), got ${problems.length}`;
+  return null;
+}
+
+function row(line, orderId) {
+  return { line, orderId, errorText: `error ${line}`, fc: null, country: null, shippingMethod: null };
+}
+
+function match(id, score) {
+  return { item: { id, title: id, patterns: [], fixSteps: [] }, score };
+}
+
+// Groups by top entry, biggest group first, with weak and missing matches unmatched.
+function checkGrouping() {
+  const rows = [row(1, "A"), row(2, "B"), row(3, "C"), row(4, "D"), row(5, "E")];
+  const matches = [[match("x", 0.9)], [match("y", 0.99), match("x", 0.8)], [match("x", 0.7)], [], [match("y", 0.4)]];
+  const { clusters, unmatched } = groupTriage(rows, matches, 0.5);
+
+  const got = clusters.map((c) => `${c.item.id}:${c.orders.map((o) => o.orderId).join("")}`).join(" ");
+  if (got !== "x:AC y:B") return `expected groups 'x:AC y:B', got '${got}'`;
+  if (clusters[0].meanScore.toFixed(2) !== "0.80" || clusters[0].minScore !== 0.7) {
+    return `expected x confidence 0.80 (0.7), got ${clusters[0].meanScore} (${clusters[0].minScore})`;
+  }
+  const left = unmatched.map((r) => r.orderId).join("");
+  return left === "DE" ? null : `expected unmatched 'DE', got '${left}'`;
+}
+
+async function main() {
+  const fixtures = yaml.load(await fs.readFile(FIXTURES_FILE, "utf8"));
+  if (!Array.isArray(fixtures)) throw new Error(`Invalid fixtures in ${FIXTURES_FILE}`);
+
+  const checks = [...fixtures.map((fx) => [fx.name, () => checkRows(fx)]), ["Grouping", checkGrouping]];
+  let failed = 0;
+  for (const [name, check] of checks) {
+    const problem = check();
+    if (!problem) continue;
+    failed++;
+    console.error(`FAIL ${name}\n     ${problem}`);
+  }
+
+  console.log(`Triage checks: ${checks.length - failed}/${checks.length} passed`);
+  if (failed) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -24,6 +24,13 @@ def slugify(s: str) -> str:
   s = re.sub(r"_+", "_", s).strip("_")
   return s[:80] if s else "untitled"
 
+# Translated columns like "Error (DE)" and "Resolution (DE)" become `translations:`.
+TRANSLATION_LANGUAGES = ["de", "es", "fr", "it"]
+
+def split_steps(res: str):
+  steps = [x.strip(" -\t") for x in re.split(r"\r?\n+", res) if x.strip()]
+  return steps or [res]
+
 def yaml_escape(s: str) -> str:
   # single-quote yaml safe
   return "'" + (s or "").replace("'", "''") + "'"
@@ -49,6 +56,14 @@ def main():
     resolution_col = pick_col(headers, ["Resolution", "Fix", "Solution"])
     fc_col = pick_col(headers, ["FC", "Warehouse"])
     url_col = pick_col(headers, ["URL"])
+    examples_col = pick_col(headers, ["Examples", "Example errors"])
+    translation_cols = {
+      lang: (
+        pick_col(headers, [f"Error ({lang})", f"Title ({lang})"]),
+        pick_col(headers, [f"Resolution ({lang})", f"Fix ({lang})"]),
+      )
+      for lang in TRANSLATION_LANGUAGES
+    }
 
     if not error_col:
       raise SystemExit(f"Missing required column 'Error' (or 'Error message'). CSV headers: {headers}")
@@ -61,6 +76,7 @@ def main():
       res = (row.get(resolution_col) or "").strip()
       fc = (row.get(fc_col) or "").strip() if fc_col else ""
       url = (row.get(url_col) or "").strip() if url_col else ""
+      examples = [x.strip() for x in re.split(r"\r?\n+", row.get(examples_col) or "") if x.strip()] if examples_col else []
 
       if not err or not res:
         continue
@@ -87,9 +103,14 @@ def main():
           patterns2.append(ptn)
 
       # Convert resolution into steps split by newlines or bullets
-      steps = [x.strip(" -\t") for x in re.split(r"\r?\n+", res) if x.strip()]
-      if not steps:
-        steps = [res]
+      steps = split_steps(res)
+
+      translations = {}
+      for lang, (title_col, res_col) in translation_cols.items():
+        t_title = (row.get(title_col) or "").strip() if title_col else ""
+        t_res = (row.get(res_col) or "").strip() if res_col else ""
+        if t_title or t_res:
+          translations[lang] = (t_title, split_steps(t_res) if t_res else [])
 
       y = []
       y.append(f"id: {yaml_escape(_id)}")
@@ -106,11 +127,26 @@ def main():
         y.append(f"    url: {yaml_escape(url)}")
       if fc:
         y.append(f"fc: {yaml_escape(fc)}")
+      if examples:
+        y.append("examples:")
+        for ex in examples[:12]:
+          y.append(f"  - {yaml_escape(ex)}")
+      if translations:
+        y.append("translations:")
+        for lang, (t_title, t_steps) in translations.items():
+          y.append(f"  {lang}:")
+          if t_title:
+            y.append(f"    title: {yaml_escape(t_title)}")
+          if t_steps:
+            y.append("    fixSteps:")
+            for st in t_steps[:12]:
+              y.append(f"      - {yaml_escape(st)}")
 
       fname.write_text("\n".join(y) + "\n", encoding="utf-8")
       written += 1
 
   print("Wrote YAML entries:", written)
+  print("Check them with: npm run kb:lint && npm run kb:examples")
 
 if __name__ == "__main__":
   main()
@@ -0,0 +1,193 @@
+// Lints kb/errors/*.yml beyond the required fields build-kb.mjs checks.
+//
+//   node scripts/lint-kb.mjs [--strict]
+//
+// Exits 1 when any rule reports an error (or a warning, with --strict).
+import fs from "node:fs/promises";
+import path from "node:path";
+import yaml from "js-yaml";
+import { createJiti } from "jiti";
+import { KB_DIR, validate } from "./build-kb.mjs";
+
+const jiti = createJiti(import.meta.url);
+const { matchKB } = await jiti.import("../utils/matcher.ts");
+
+// Patterns matching more than this share of other entries' titles are too broad to tell entries apart.
+const BROAD_SHARE = 0.1;
+const BROAD_MIN_HITS = 5;
+const MIN_PATTERN_CHARS = 4;
+const UNRELATED_TEXT = ["Printer is out of paper", "zzzz qqqq"];
+
+const ERROR = "error";
+const WARNING = "warning";
+
+function compile(p) {
+  try {
+    return new RegExp(p, "i");
+  } catch {
+    return null;
+  }
+}
+
+// Text the pattern can match once regex syntax is stripped, e.g. "house.?number" -> "housenumber".
+function literalChars(p) {
+  return p.replace(/\\[dDwWsSbB]/g, "").replace(/[\\^$.*+?()[\]{}|]/g, "");
+}
+
+// Reads like a pasted error rather than a regex: regex metacharacters but no regex-only
+// syntax, and it doesn't match its own text.
+function looksUnescaped(p, re) {
+  if (!/[()?[\]+*{}]/.test(p)) return false;
+  if (/\\|\.\*|\(\?|\||^\^|\$$/.test(p)) return false;
+  return !re.test(p);
+}
+
+function short(s, max = 80) {
+  return s.length > max ? s.slice(0, max - 3) + "..." : s;
+}
+
+function isMarkdownLink(url) {
+  return /^\[[^\]]*\]\([^)]*\)$/.test(url);
+}
+
+/**
+ * Per-entry rules. Each returns findings as { severity, rule, where, message }.
+ */
+function lintEntry(entry, others) {
+  const out = [];
+  const add = (severity, rule, where, message) => out.push({ severity, rule, where, message });
+
+  entry.patterns.forEach((p, i) => {
+    const where = `patterns[${i}] '${short(p)}'`;
+    const re = compile(p);
+    if (!re) {
+      add(ERROR, "invalid-regex", where, "not a valid regex; the matcher silently skips it");
+      return;
+    }
+    if (re.test("") || UNRELATED_TEXT.every((t) => re.test(t))) {
+      add(ERROR, "catch-all-pattern", where, "matches any text");
+      return;
+    }
+    if (literalChars(p).length < MIN_PATTERN_CHARS) {
+      add(WARNING, "short-pattern", where, "too short to be specific");
+    }
+    if (looksUnescaped(p, re)) {
+      add(WARNING, "unescaped-literal", where, "looks like literal text with unescaped ( ? [ and won't match itself");
+    }
+
+    const hits = others.filter((o) => re.test(o.title));
+    if (hits.length >= BROAD_MIN_HITS && hits.length / Math.max(1, others.length) > BROAD_SHARE) {
+      add(WARNING, "broad-pattern", where, `matches the titles of ${hits.length} other entries`);
+    }
+  });
+
+  entry.links.forEach((l, i) => {
+    const where = `links[${i}].url`;
+    if (isMarkdownLink(l.url)) {
+      add(WARNING, "markdown-link", where, "URL is wrapped in markdown [label](url); use the plain URL");
+    } else if (!/^https?:\/\//i.test(l.url)) {
+      add(ERROR, "invalid-link", where, `'${short(l.url)}' is not an http(s) URL`);
+    }
+  });
+
+  return out;
+}
+
+// Sample errors for an entry: its title, which is the error text it was written for, and its examples.
+function samples(entry) {
+  return [entry.title, ...(entry.examples ?? [])];
+}
+
+/**
+ * Runs every entry's sample errors through the matcher against the whole KB.
+ * Entries that outrank the owner on its own sample shadow it; pairs that tie on
+ * each other's samples can never be told apart.
+ */
+function lintOverlap(items) {
+  const findings = new Map(items.map((it) => [it.id, []]));
+  const ties = new Map();
+
+  for (const entry of items) {
+    for (const sample of samples(entry)) {
+      const { matches } = matchKB(items, { errorText: sample }, { limit: items.length });
+      const own = matches.find((m) => m.item.id === entry.id);
+      const where = `sample '${short(sample, 60)}'`;
+      if (!own) {
+        findings.get(entry.id).push({ severity: WARNING, rule: "sample-unmatched", where, message: "the entry doesn't match its own sample" });
+        continue;
+      }
+      const above = matches.filter((m) => m.score > own.score).map((m) => m.item.id);
+      if (above.length) {
+        findings.get(entry.id).push({ severity: WARNING, rule: "shadowed", where, message: `outranked by ${above.join(", ")}` });
+      }
+      for (const m of matches) {
+        if (m.item.id !== entry.id && m.score === own.score) ties.set(`${entry.id}\0${m.item.id}`, true);
+      }
+    }
+  }
+
+  for (const key of ties.keys()) {
+    const [a, b] = key.split("\0");
+    if (a < b && ties.has(`${b}\0${a}`)) {
+      const message = `ties with ${b} on both entries' samples; merge them or make the patterns more specific`;
+      findings.get(a).push({ severity: WARNING, rule: "always-ties", where: "patterns", message });
+    }
+  }
+  return findings;
+}
+
+async function main() {
+  const strict = process.argv.includes("--strict");
+  const files = (await fs.readdir(KB_DIR)).filter((f) => f.endsWith(".yml") || f.endsWith(".yaml")).sort();
+
+  const byFile = new Map();
+  const items = [];
+  const fileOf = new Map();
+  const seen = new Map();
+
+  for (const f of files) {
+    const list = [];
+    byFile.set(f, list);
+    let entry;
+    try {
+      const parsed = yaml.load(await fs.readFile(path.join(KB_DIR, f), "utf8"));
+      if (!parsed || typeof parsed !== "object") throw new Error(`Invalid YAML in ${f}`);
+      entry = validate(parsed, f);
+    } catch (e) {
+      list.push({ severity: ERROR, rule: "schema", where: "", message: String(e?.message || e) });
+      continue;
+    }
+    if (seen.has(entry.id)) {
+      list.push({ severity: ERROR, rule: "duplicate-id", where: "id", message: `'${entry.id}' is also used by ${seen.get(entry.id)}` });
+      continue;
+    }
+    seen.set(entry.id, f);
+    fileOf.set(entry.id, f);
+    items.push(entry);
+  }
+
+  for (const entry of items) {
+    byFile.get(fileOf.get(entry.id)).push(...lintEntry(entry, items.filter((o) => o !== entry)));
+  }
+  for (const [id, list] of lintOverlap(items)) byFile.get(fileOf.get(id)).push(...list);
+
+  let errors = 0;
+  let warnings = 0;
+  for (const [f, list] of byFile) {
+    if (!list.length) continue;
+    console.log(path.join(path.relative(process.cwd(), KB_DIR), f));
+    for (const x of list) {
+      if (x.severity === ERROR) errors++;
+      else warnings++;
+      console.log(`  ${x.severity.padEnd(7)} ${x.rule.padEnd(18)} ${x.where ? x.where + ": " : ""}${x.message}`);
+    }
+  }
+
+  console.log(`\nKB lint: ${files.length} file(s), ${errors} error(s), ${warnings} warning(s)`);
+  if (errors || (strict && warnings)) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
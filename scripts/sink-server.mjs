@@ -0,0 +1,47 @@
+// Local stand-in for the capture webhook. Prints every payload it receives as NDJSON.
+//
+//   node scripts/sink-server.mjs [--port 8787] [--fail 3] [--token secret]
+//
+// --fail N answers the first N requests with 503 to exercise the retry queue.
+// --token T requires "Authorization: Bearer T".
+import http from "node:http";
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i > 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback;
+}
+
+const port = Number(arg("port", 8787));
+let failLeft = Number(arg("fail", 0));
+const token = arg("token", "");
+
+const server = http.createServer((req, res) => {
+  // The extension posts from its own origin; answer preflights so fetch isn't blocked.
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  if (req.method === "OPTIONS") return res.writeHead(204).end();
+  if (req.method !== "POST") return res.writeHead(405).end();
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      console.error(`401 ${req.url}`);
+      return res.writeHead(401).end();
+    }
+    if (failLeft > 0) {
+      failLeft--;
+      console.error(`503 ${req.url} (${failLeft} more failure(s) to go)`);
+      return res.writeHead(503).end();
+    }
+    try {
+      console.log(JSON.stringify(JSON.parse(body)));
+      res.writeHead(204).end();
+    } catch {
+      console.error(`400 ${req.url}: body is not JSON`);
+      res.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(port, "127.0.0.1", () => console.error(`Sink listening on http://127.0.0.1:${port}/`));
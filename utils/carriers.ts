@@ -0,0 +1,233 @@
+import { sameCountry } from "./countries";
+import type { KBLink } from "./kb";
+
+// Standard parcel-service limits. A limit that isn't set is unknown, not unlimited;
+// a contract can allow more than these.
+export type CarrierLimits = {
+  maxWeightKg?: number;
+  // Longest side.
+  maxLengthCm?: number;
+  servicePoints?: boolean;
+  cod?: boolean;
+};
+
+/**
+ * One carrier as shipping methods and error messages name it. `aliases` are
+ * case-insensitive regexes matched between non-letters, so "DHL Paket" and
+ * "dhl_paket" both find DHL. `countries` are the destinations it delivers to;
+ * none means worldwide or not known.
+ */
+export type Carrier = {
+  id: string;
+  name: string;
+  aliases: string[];
+  // Only recognised in a shipping method or a `when.carrier`: the word also turns
+  // up in merchant names and error text that aren't about the carrier.
+  methodOnly?: boolean;
+  countries?: string[];
+  limits: CarrierLimits;
+  links?: KBLink[];
+};
+
+// First match wins, so a method like "Amazon via DHL" resolves to DHL.
+export const CARRIERS: Carrier[] = [
+  {
+    id: "dhl",
+    name: "DHL",
+    aliases: ["dhl"],
+    limits: { maxWeightKg: 31.5, maxLengthCm: 120, servicePoints: true, cod: true },
+    links: [{ label: "DHL support", url: "https://www.dhl.com/" }],
+  },
+  {
+    id: "dpd",
+    name: "DPD",
+    aliases: ["dpd"],
+    limits: { maxWeightKg: 31.5, maxLengthCm: 175, servicePoints: true, cod: true },
+    links: [{ label: "DPD support", url: "https://www.dpd.com/" }],
+  },
+  {
+    id: "gls",
+    name: "GLS",
+    aliases: ["gls"],
+    limits: { maxWeightKg: 40, maxLengthCm: 200, servicePoints: true, cod: true },
+    links: [{ label: "GLS support", url: "https://gls-group.com/" }],
+  },
+  {
+    id: "ups",
+    name: "UPS",
+    aliases: ["ups"],
+    limits: { maxWeightKg: 70, maxLengthCm: 274, servicePoints: true, cod: true },
+    links: [{ label: "UPS support", url: "https://www.ups.com/" }],
+  },
+  {
+    id: "colissimo",
+    name: "Colissimo",
+    aliases: ["colissimo"],
+    limits: { maxWeightKg: 30, servicePoints: true },
+    links: [{ label: "Colissimo support", url: "https://www.colissimo.fr/" }],
+  },
+  {
+    id: "mondial_relay",
+    name: "Mondial Relay",
+    aliases: ["mondial(?:\\s*relay)?"],
+    countries: ["France", "Belgium", "Luxembourg", "Netherlands", "Spain", "Portugal", "Germany", "Austria", "Italy", "Poland"],
+    limits: { maxWeightKg: 30, servicePoints: true, cod: false },
+    links: [{ label: "Mondial Relay support", url: "https://www.mondialrelay.fr/" }],
+  },
+  {
+    id: "correos",
+    name: "Correos",
+    aliases: ["correos"],
+    limits: { maxWeightKg: 30, servicePoints: true, cod: true },
+    links: [{ label: "Correos support", url: "https://www.correos.es/" }],
+  },
+  {
+    id: "delivengo",
+    name: "Delivengo",
+    aliases: ["delivengo"],
+    limits: { maxWeightKg: 2, servicePoints: false, cod: false },
+  },
+  {
+    id: "spring",
+    name: "Spring",
+    aliases: ["spring"],
+    methodOnly: true,
+    limits: {},
+  },
+  {
+    id: "amazon",
+    name: "Amazon",
+    aliases: ["amazon"],
+    methodOnly: true,
+    limits: {},
+  },
+  {
+    id: "parcelforce",
+    name: "Parcelforce",
+    aliases: ["parcel\\s*force"],
+    limits: { maxWeightKg: 30, maxLengthCm: 150 },
+    links: [{ label: "Parcelforce support", url: "https://www.parcelforce.com/" }],
+  },
+  {
+    id: "royal_mail",
+    name: "Royal Mail",
+    aliases: ["royal\\s*mail"],
+    limits: { maxWeightKg: 20, maxLengthCm: 61 },
+    links: [{ label: "Royal Mail support", url: "https://www.royalmail.com/" }],
+  },
+  {
+    id: "paack",
+    name: "Paack",
+    aliases: ["paack"],
+    countries: ["Spain", "Portugal", "France", "Italy", "United Kingdom"],
+    limits: { servicePoints: false },
+  },
+  {
+    id: "inpost",
+    name: "InPost",
+    aliases: ["in\\s*post"],
+    countries: ["Poland", "United Kingdom", "Italy", "France", "Spain", "Portugal", "Belgium", "Netherlands", "Luxembourg"],
+    limits: { maxWeightKg: 25, maxLengthCm: 64, servicePoints: true, cod: true },
+    links: [{ label: "InPost support", url: "https://inpost.eu/" }],
+  },
+  {
+    // Shops and agents write it "MeinEinkauf", "Mein Einkauf" and "Meinenkauf".
+    id: "meineinkauf",
+    name: "MeinEinkauf",
+    aliases: ["mein\\s*e[a-z]*kauf"],
+    countries: ["Switzerland", "Liechtenstein"],
+    limits: { maxWeightKg: 31.5 },
+    links: [{ label: "MeinEinkauf support", url: "https://www.meineinkauf.ch/" }],
+  },
+];
+
+const patterns = new Map<Carrier, RegExp>();
+
+// The carrier's aliases as one regex, e.g. for stripping a "GLS:" prefix off an error.
+export function carrierPattern(c: Carrier) {
+  let re = patterns.get(c);
+  if (!re) patterns.set(c, (re = new RegExp(`(?<!\\p{L})(?:${c.aliases.join("|")})(?!\\p{L})`, "iu")));
+  return re;
+}
+
+// `method`: the text is a shipping method or carrier name, so methodOnly carriers count too.
+export function findCarrier(text: string | null | undefined, { method = false } = {}): Carrier | null {
+  const t = String(text ?? "");
+  if (!t.trim()) return null;
+  // Sendcloud is a label platform, not a carrier, so it isn't in the registry.
+  return CARRIERS.find((c) => (method || !c.methodOnly) && carrierPattern(c).test(t)) ?? null;
+}
+
+// Every carrier free text such as an error or a KB title names, in registry order.
+export function findCarriers(text: string | null | undefined): Carrier[] {
+  const t = String(text ?? "");
+  return t.trim() ? CARRIERS.filter((c) => !c.methodOnly && carrierPattern(c).test(t)) : [];
+}
+
+// Carrier of a shipping method like "DHL Paket" or "GLS Shop Delivery"; null for unknown methods.
+export function carrierFromMethod(method: string | null | undefined): string | null {
+  return findCarrier(method, { method: true })?.name ?? null;
+}
+
+// Order facts a carrier's limits are checked against; unknown facts break nothing.
+export type CarrierFacts = {
+  country?: string | null;
+  shippingMethod?: string | null;
+  weightKg?: number | null;
+  lengthCm?: number | null;
+  cod?: boolean | null;
+};
+
+export type CarrierWarning = {
+  carrier: Carrier;
+  limit: keyof CarrierLimits | "country";
+  text: string;
+};
+
+const SERVICE_POINT = /service ?point|pick ?up|parcel ?shop|relais|relay|locker|paketshop|packstation|punto/i;
+
+function lc(x: unknown) {
+  return String(x ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Known limits of the carrier that the order breaks, so the popup can warn
+ * before the label request fails.
+ */
+export function checkCarrierLimits(carrier: Carrier, facts: CarrierFacts): CarrierWarning[] {
+  const out: CarrierWarning[] = [];
+  const { limits, name } = carrier;
+  const warn = (limit: CarrierWarning["limit"], text: string) => out.push({ carrier, limit, text });
+
+  const country = lc(facts.country);
+  if (country && carrier.countries?.length && !carrier.countries.some((c) => sameCountry(country, c))) {
+    warn("country", `${name} doesn't deliver to ${facts.country}.`);
+  }
+  if (limits.maxWeightKg != null && facts.weightKg != null && facts.weightKg > limits.maxWeightKg) {
+    warn("maxWeightKg", `The parcel weighs ${facts.weightKg} kg; ${name} takes at most ${limits.maxWeightKg} kg.`);
+  }
+  if (limits.maxLengthCm != null && facts.lengthCm != null && facts.lengthCm > limits.maxLengthCm) {
+    warn("maxLengthCm", `The parcel's longest side is ${facts.lengthCm} cm; ${name} takes at most ${limits.maxLengthCm} cm.`);
+  }
+  if (limits.cod === false && facts.cod) {
+    warn("cod", `${name} doesn't offer cash on delivery.`);
+  }
+  if (limits.servicePoints === false && SERVICE_POINT.test(String(facts.shippingMethod ?? ""))) {
+    warn("servicePoints", `${name} doesn't deliver to service points.`);
+  }
+  return out;
+}
+
+// "DHL · max 31.5 kg · max 120 cm · service points · COD" for the popup's carrier chip.
+export function describeCarrier(c: Carrier) {
+  const { limits } = c;
+  const parts = [
+    c.name,
+    limits.maxWeightKg != null ? `max ${limits.maxWeightKg} kg` : "",
+    limits.maxLengthCm != null ? `max ${limits.maxLengthCm} cm` : "",
+    limits.servicePoints != null ? (limits.servicePoints ? "service points" : "no service points") : "",
+    limits.cod != null ? (limits.cod ? "COD" : "no COD") : "",
+    c.countries?.length ? `delivers to ${c.countries.join(", ")}` : "",
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
@@ -0,0 +1,68 @@
+// Destination countries by ISO 3166-1 alpha-2 code, with the names FC pages, Sendcloud
+// and carriers show for them: English, the local name and common short forms.
+const COUNTRY_NAMES: Record<string, string[]> = {
+  AT: ["austria", "österreich", "osterreich"],
+  BA: ["bosnia and herzegovina", "bosnia", "bosna i hercegovina"],
+  BE: ["belgium", "belgië", "belgie", "belgique", "belgien"],
+  BG: ["bulgaria", "българия"],
+  CH: ["switzerland", "schweiz", "suisse", "svizzera"],
+  CY: ["cyprus"],
+  CZ: ["czech republic", "czechia", "česko", "cesko"],
+  DE: ["germany", "deutschland", "allemagne", "germania", "alemania"],
+  DK: ["denmark", "danmark"],
+  EE: ["estonia", "eesti"],
+  ES: ["spain", "españa", "espana", "espagne", "spanien", "spagna"],
+  FI: ["finland", "suomi"],
+  FR: ["france", "frankreich", "francia"],
+  GB: ["united kingdom", "uk", "great britain", "england", "scotland", "wales", "northern ireland"],
+  GR: ["greece", "ελλάδα", "hellas"],
+  HR: ["croatia", "hrvatska"],
+  HU: ["hungary", "magyarország", "magyarorszag"],
+  IE: ["ireland", "éire", "eire"],
+  IT: ["italy", "italia", "italie", "italien"],
+  LI: ["liechtenstein"],
+  LT: ["lithuania", "lietuva"],
+  LU: ["luxembourg", "luxemburg", "lussemburgo"],
+  LV: ["latvia", "latvija"],
+  MC: ["monaco"],
+  MT: ["malta"],
+  NL: ["netherlands", "the netherlands", "nederland", "holland", "pays-bas", "niederlande", "paesi bassi"],
+  NO: ["norway", "norge"],
+  PL: ["poland", "polska", "polen", "pologne"],
+  PR: ["puerto rico"],
+  PT: ["portugal"],
+  RO: ["romania", "românia"],
+  SE: ["sweden", "sverige"],
+  SI: ["slovenia", "slovenija"],
+  SK: ["slovakia", "slovensko"],
+  SM: ["san marino"],
+  US: ["united states", "united states of america", "usa"],
+};
+
+const CODE_BY_NAME = new Map(
+  Object.entries(COUNTRY_NAMES).flatMap(([code, names]) => names.map((n) => [n, code] as const))
+);
+
+function lc(x: unknown) {
+  return String(x ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// "Italia", "italy" or "IT" -> "IT"; null for names the table doesn't know.
+export function countryCode(value: string | null | undefined): string | null {
+  const v = lc(value);
+  if (v.length === 2 && Object.hasOwn(COUNTRY_NAMES, v.toUpperCase())) return v.toUpperCase();
+  return CODE_BY_NAME.get(v) ?? null;
+}
+
+/**
+ * Whether a page's country is the one a KB entry, hint or carrier names. Known
+ * names and codes compare by code; anything else falls back to the page value
+ * containing the name, e.g. "25020 Flero BS, Italy".
+ */
+export function sameCountry(page: string | null | undefined, name: string) {
+  const a = countryCode(page);
+  const b = countryCode(name);
+  if (a && b) return a === b;
+  const p = lc(page);
+  return !!p && p.includes(lc(name));
+}
@@ -0,0 +1,176 @@
+import { CARRIERS, carrierPattern, findCarrier } from "./carriers";
+
+// One error extracted from a raw Sendcloud / carrier error string.
+export type ParsedError = {
+  platform: string | null;
+  carrier: string | null;
+  fieldPath: string | null;
+  code: string | null;
+  message: string;
+};
+
+// Bare (unquoted) field keys we accept without a `_`, `.` or `[` in them.
+const PLAIN_FIELDS = new Set(["consignee", "consignor", "reference", "city", "email", "phone", "country", "state"]);
+
+const IGNORED_FIELDS = new Set(["uncategorized"]);
+
+function clean(s: string) {
+  return s
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^["']+/, "")
+    .replace(/[,;]$/, "")
+    .replace(/["']+$/, "")
+    .trim();
+}
+
+function isFieldKey(k: string, quoted: boolean) {
+  if (!/^[A-Za-z_][\w.\[\]]*$/.test(k)) return false;
+  if (/[_.\[]/.test(k)) return true;
+  if (/^[a-z]+[A-Z]\w*$/.test(k)) return true;
+  return quoted ? /^[a-z]/.test(k) : PLAIN_FIELDS.has(k);
+}
+
+function detectPlatform(t: string) {
+  return /\bs?endcl(?:e)?oud\b/i.test(t) ? "sendcloud" : null;
+}
+
+function detectCarrier(t: string) {
+  return findCarrier(t)?.name ?? null;
+}
+
+function detectCode(msg: string) {
+  const m =
+    msg.match(/\bwith code\s+([A-Za-z0-9-]+)/i) ||
+    msg.match(/\((?:code:\s*)?([A-Z]-\d{3})\)/) ||
+    msg.match(/\bstatus(?:Code)?\s*:\s*(\d{3})\b/) ||
+    msg.match(/^(?:service error:\s*)?(\d{4,6})\s*:/i);
+  return m ? m[1] : null;
+}
+
+function stripPrefixes(t: string) {
+  let body = t
+    .replace(/^error(?:\s+message)?\s*[:\-]\s*/i, "")
+    .replace(/^s?endcl(?:e)?oud\s+error\s+occurred\s*:\s*/i, "")
+    .trim();
+
+  // "GLS non_field_errors: ..." / "Mein Einkauf: consignments[0]...: ..."
+  for (const c of CARRIERS) {
+    const lead = new RegExp(`^${carrierPattern(c).source}\\s*:?\\s*(?=[a-z_][\\w.\\[\\]]*\\s*:)`, "iu");
+    if (lead.test(body)) {
+      body = body.replace(lead, "");
+      break;
+    }
+  }
+  return body;
+}
+
+// {"errors": {"id": "..."}} or ["field: message", ...]
+function parseJson(body: string): { fieldPath: string | null; message: string }[] | null {
+  if (!/^[\[{]/.test(body)) return null;
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return null;
+  }
+
+  const out: { fieldPath: string | null; message: string }[] = [];
+  const walk = (v: unknown, path: string) => {
+    if (Array.isArray(v)) {
+      v.forEach((x, i) => walk(x, typeof x === "string" ? path : `${path}[${i}]`));
+    } else if (v && typeof v === "object") {
+      for (const [k, x] of Object.entries(v)) walk(x, path ? `${path}.${k}` : k);
+    } else if (v != null) {
+      const s = String(v);
+      const m = !path ? s.match(/^([\w.\[\]]+)\s*:\s*(.+)$/) : null;
+      if (m && isFieldKey(m[1], true)) out.push({ fieldPath: m[1], message: clean(m[2]) });
+      else out.push({ fieldPath: path || null, message: clean(s) });
+    }
+  };
+  walk(data, "");
+  return out.length ? out : null;
+}
+
+// Sendcloud serialises per-item errors as "{}, {'sku': ['This field may not be null.']}, {}".
+function expandItemErrors(fieldPath: string, value: string) {
+  const out: { fieldPath: string; message: string }[] = [];
+  const objs = Array.from(value.matchAll(/\{([^{}]*)\}/g));
+  objs.forEach((o, i) => {
+    for (const m of o[1].matchAll(/'(\w+)'\s*:\s*\[\s*'([^']*)'/g)) {
+      out.push({ fieldPath: `${fieldPath}[${i}].${m[1]}`, message: clean(m[2]) });
+    }
+  });
+  return out;
+}
+
+// field: "message", other_field: "message"
+function parseQuotedFields(body: string) {
+  const keys = Array.from(body.matchAll(/(^|,\s*)([A-Za-z_][\w.\[\]]*)\s*:\s*"/g)).filter((m) =>
+    isFieldKey(m[2], true)
+  );
+  if (!keys.length || keys[0].index !== 0) return null;
+
+  const out: { fieldPath: string | null; message: string }[] = [];
+  keys.forEach((m, i) => {
+    const start = m.index! + m[0].length;
+    const end = i + 1 < keys.length ? keys[i + 1].index! : body.length;
+    const key = m[2];
+    const value = body.slice(start, end);
+    if (IGNORED_FIELDS.has(key)) return;
+
+    const items = expandItemErrors(key, value);
+    if (items.length) out.push(...items);
+    else out.push({ fieldPath: key === "non_field_errors" ? null : key, message: clean(value) });
+  });
+  return out.length ? out : null;
+}
+
+// consignee: Please enter a house number. consignee: The address could not be encoded.
+function parseBareFields(body: string) {
+  const keys = Array.from(body.matchAll(/(^|[.,;]\s+)([A-Za-z_][\w.\[\]]*)\s*:\s+/g)).filter((m) =>
+    isFieldKey(m[2], false)
+  );
+  if (!keys.length || keys[0].index !== 0) return null;
+
+  return keys.map((m, i) => {
+    const start = m.index! + m[0].length;
+    const end = i + 1 < keys.length ? keys[i + 1].index! + keys[i + 1][1].length - 1 : body.length;
+    return { fieldPath: m[2], message: clean(body.slice(start, end)) };
+  });
+}
+
+// Api error appeared: status: 401, message: {title: "Unauthorized", detail: "..."}
+function parseApiError(body: string) {
+  if (!/\bstatus\s*:\s*\d{3}\b/.test(body) || !/message\s*:\s*\{/.test(body)) return null;
+  const detail = body.match(/\bdetail\s*:\s*"([^"]+)"/) || body.match(/\btitle\s*:\s*"([^"]+)"/);
+  return [{ fieldPath: null, message: clean(detail ? detail[1] : body) }];
+}
+
+/**
+ * Split a raw Sendcloud / GLS / DPD error into its individual errors, keeping
+ * the field path and any carrier or service error code.
+ */
+export function parseCarrierError(raw: string): ParsedError[] {
+  const text = String(raw || "").replace(/[“”]/g, '"').replace(/[‘’]/g, "'").replace(/\s+/g, " ").trim();
+  if (!text) return [];
+
+  const platform = detectPlatform(text);
+  const carrier = detectCarrier(text);
+  const body = stripPrefixes(text);
+
+  const parts = parseJson(body) ||
+    parseApiError(body) ||
+    parseQuotedFields(body) ||
+    parseBareFields(body) || [{ fieldPath: null, message: clean(body) }];
+
+  return parts
+    .filter((p) => p.message)
+    .map((p) => ({
+      platform,
+      carrier,
+      fieldPath: p.fieldPath,
+      code: detectCode(p.message) ?? (parts.length === 1 ? detectCode(body) : null),
+      message: p.message,
+    }));
+}
@@ -0,0 +1,121 @@
+import type { ParsedError } from "./errorParser";
+import { fieldKey } from "./when";
+
+// One thumbs up/down on a match, with the error and page it was given for.
+export type FeedbackVote = {
+  id: string;
+  at: string;
+  kbId: string;
+  kbTitle: string;
+  vote: 1 | -1;
+  // One per sub-error the vote covers; see errorSignature.
+  signatures: string[];
+  errorText: string;
+  fc: string | null;
+  country: string | null;
+  shippingMethod: string | null;
+};
+
+export type FeedbackStats = {
+  kbId: string;
+  kbTitle: string;
+  up: number;
+  down: number;
+  lastAt: string;
+  // Votes per error signature, most voted first.
+  signatures: { signature: string; up: number; down: number }[];
+};
+
+const FEEDBACK_KEY = "kb_feedback";
+const MAX_VOTES = 2000;
+
+/**
+ * Field plus message with numbers, quoted values and punctuation flattened, so
+ * "Postal code '1234' is invalid" and "Postal code '5678' is invalid" share one.
+ */
+export function errorSignature(err: Pick<ParsedError, "fieldPath" | "message">) {
+  const msg = String(err.message || "")
+    .toLowerCase()
+    .replace(/"[^"]*"/g, "#")
+    .replace(/(^|\s)'[^']*'/g, "$1#")
+    .replace(/\d+/g, "#")
+    .replace(/[^a-z#_ ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  const field = fieldKey(err.fieldPath);
+  return field ? `${field}: ${msg}` : msg;
+}
+
+function tokens(sig: string) {
+  return new Set(sig.split(/[^a-z_]+/).filter((t) => t.length >= 3));
+}
+
+// 1 for the same signature, token Jaccard otherwise.
+function similarity(a: string, b: string) {
+  if (a === b) return 1;
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (!ta.size || !tb.size) return 0;
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return shared / (ta.size + tb.size - shared);
+}
+
+const MIN_SIMILARITY = 0.6;
+
+/**
+ * Net votes for an entry on errors like these: each vote counts by how close
+ * its error is to the closest current one; unrelated errors don't count.
+ */
+export function feedbackScore(votes: FeedbackVote[], kbId: string, signatures: string[]) {
+  let net = 0;
+  for (const v of votes) {
+    if (v.kbId !== kbId) continue;
+    let best = 0;
+    for (const a of v.signatures) for (const b of signatures) best = Math.max(best, similarity(a, b));
+    if (best >= MIN_SIMILARITY) net += v.vote * best;
+  }
+  return net;
+}
+
+export async function loadFeedback(): Promise<FeedbackVote[]> {
+  const r = await browser.storage.local.get(FEEDBACK_KEY);
+  return Array.isArray(r?.[FEEDBACK_KEY]) ? (r[FEEDBACK_KEY] as FeedbackVote[]) : [];
+}
+
+// Saving a vote with an existing id replaces it, so an agent can change their mind.
+export async function saveFeedback(vote: FeedbackVote) {
+  const votes = (await loadFeedback()).filter((v) => v.id !== vote.id);
+  votes.push(vote);
+  await browser.storage.local.set({ [FEEDBACK_KEY]: votes.slice(-MAX_VOTES) });
+  return vote;
+}
+
+export function feedbackStats(votes: FeedbackVote[]): FeedbackStats[] {
+  const byId = new Map<string, FeedbackStats & { bySig: Map<string, { up: number; down: number }> }>();
+  for (const v of votes) {
+    let s = byId.get(v.kbId);
+    if (!s) {
+      s = { kbId: v.kbId, kbTitle: v.kbTitle, up: 0, down: 0, lastAt: v.at, signatures: [], bySig: new Map() };
+      byId.set(v.kbId, s);
+    }
+    if (v.vote > 0) s.up++;
+    else s.down++;
+    if (v.at > s.lastAt) s.lastAt = v.at;
+    for (const sig of v.signatures) {
+      const c = s.bySig.get(sig) ?? { up: 0, down: 0 };
+      if (v.vote > 0) c.up++;
+      else c.down++;
+      s.bySig.set(sig, c);
+    }
+  }
+
+  return Array.from(byId.values())
+    .map(({ bySig, ...s }) => ({
+      ...s,
+      signatures: Array.from(bySig, ([signature, c]) => ({ signature, ...c })).sort(
+        (a, b) => b.up + b.down - (a.up + a.down)
+      ),
+    }))
+    .sort((a, b) => b.up + b.down - (a.up + a.down));
+}
@@ -0,0 +1,113 @@
+import { carrierFromMethod, checkCarrierLimits, findCarrier, type CarrierWarning } from "./carriers";
+import { sameCountry } from "./countries";
+import { parseCarrierError } from "./errorParser";
+import type { KBLink, KBWhen } from "./kb";
+import type { MatchContext } from "./matcher";
+import { evaluateWhen } from "./when";
+
+export type HintSeverity = "info" | "warning" | "critical";
+
+export const HINT_SEVERITIES: HintSeverity[] = ["critical", "warning", "info"];
+
+// Everything a KB entry's `when:` block can check, plus conditions only hints use.
+export type HintWhen = KBWhen & {
+  // Regexes tested against the error text; any of them may match.
+  errorPattern?: string[];
+  // The destination isn't one of the agent's common destinations (options page).
+  uncommonDestination?: boolean;
+};
+
+// Shape of one entry in hints.json, as written by scripts/build-kb.mjs from kb/hints/*.yml.
+export type HintRule = {
+  id: string;
+  severity: HintSeverity;
+  text: string;
+  link?: KBLink;
+  when: HintWhen;
+};
+
+export type HintInput = {
+  errorText: string;
+  context?: MatchContext;
+  commonDestinations?: string[];
+};
+
+function testPatterns(patterns: string[], text: string) {
+  return patterns.some((p) => {
+    try {
+      return new RegExp(p, "i").test(text);
+    } catch {
+      return false;
+    }
+  });
+}
+
+// Weight, length and COD limits stop the label outright; coverage and service points may depend on the contract.
+const CARRIER_SEVERITY: Record<CarrierWarning["limit"], HintSeverity> = {
+  maxWeightKg: "critical",
+  maxLengthCm: "critical",
+  cod: "critical",
+  servicePoints: "warning",
+  country: "warning",
+};
+
+/**
+ * Limits of the page's carrier (utils/carriers.ts) that the order breaks, as
+ * hints. They need no error, so the popup shows them as soon as it opens.
+ */
+export function carrierHints(ctx: MatchContext): HintRule[] {
+  const carrier = findCarrier(ctx.shippingMethodFromPage, { method: true });
+  if (!carrier) return [];
+  const warnings = checkCarrierLimits(carrier, {
+    country: ctx.countryFromPage,
+    shippingMethod: ctx.shippingMethodFromPage,
+    weightKg: ctx.weightKg,
+    lengthCm: ctx.lengthCm,
+    cod: ctx.cod,
+  });
+  return warnings.map((w) => ({
+    id: `carrier_${carrier.id}_${w.limit}`,
+    severity: CARRIER_SEVERITY[w.limit],
+    text: w.text,
+    link: carrier.links?.[0],
+    when: {},
+  }));
+}
+
+/**
+ * Hints whose conditions all hold for the error and page context, most severe
+ * first, with the carrier's broken limits among them. A condition on a fact the
+ * page didn't show keeps the hint hidden.
+ */
+export function evaluateHints(rules: HintRule[], input: HintInput): HintRule[] {
+  const errorText = String(input.errorText || "");
+  const ctx = input.context ?? {};
+  const country = String(ctx.countryFromPage || "").trim();
+  const common = input.commonDestinations ?? [];
+  const err = parseCarrierError(errorText)[0];
+
+  const matched = rules.filter((rule) => {
+    const { errorPattern, uncommonDestination, ...when } = rule.when;
+    if (errorPattern?.length && !testPatterns(errorPattern, errorText)) return false;
+    if (uncommonDestination && (!country || common.some((c) => sameCountry(country, c)))) return false;
+    if (!Object.keys(when).length) return true;
+    const res = evaluateWhen(when, {
+      country: ctx.countryFromPage,
+      fc: ctx.fcFromPage,
+      carrier: carrierFromMethod(ctx.shippingMethodFromPage) ?? err?.carrier,
+      shippingMethod: ctx.shippingMethodFromPage,
+      fieldPath: err?.fieldPath,
+      postalCode: ctx.postalCode,
+      merchant: ctx.merchant,
+      cod: ctx.cod,
+      poBox: ctx.poBox,
+      weightKg: ctx.weightKg,
+      quantity: ctx.quantity,
+    });
+    return res.status === "match";
+  });
+
+  return [...matched, ...carrierHints(ctx)].sort(
+    (a, b) => HINT_SEVERITIES.indexOf(a.severity) - HINT_SEVERITIES.indexOf(b.severity)
+  );
+}
@@ -0,0 +1,155 @@
+import type { OrderContext } from "./orderContext";
+
+// Local capture history, kept in the extension's IndexedDB.
+export type Outcome = "worked" | "didnt_work" | "escalated";
+
+export const OUTCOME_LABELS: Record<Outcome, string> = {
+  worked: "Fix worked",
+  didnt_work: "Didn't work",
+  escalated: "Escalated",
+};
+
+export type CaptureRecord = {
+  id: string;
+  createdAt: string;
+  errorText: string;
+  source: string;
+  url: string;
+  pageTitle: string;
+  orderId: string | null;
+  fc: string | null;
+  country: string | null;
+  shippingMethod: string | null;
+  // Missing on records from before order facts were captured.
+  order?: OrderContext | null;
+  matches: { id: string; title: string; score: number }[];
+  outcome: Outcome | null;
+  outcomeAt: string | null;
+};
+
+export type CaptureFilter = {
+  query?: string;
+  orderId?: string;
+  fc?: string;
+  kbId?: string;
+  outcome?: Outcome | "none";
+};
+
+const DB_NAME = "oli-history";
+const STORE = "captures";
+const MAX_RECORDS = 5000;
+
+function done<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("createdAt", "createdAt");
+    };
+    dbPromise = done(req);
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+async function store(mode: IDBTransactionMode) {
+  return (await openDb()).transaction(STORE, mode).objectStore(STORE);
+}
+
+// "https://fc.hive.app/orders/12345/..." -> "12345"
+export function orderIdFromUrl(url: string | null | undefined): string | null {
+  const m = String(url || "").match(/\/orders?\/([\w-]+)/i);
+  return m ? m[1] : null;
+}
+
+// The order ID shown on the page wins over the one in the URL.
+export async function addCapture(
+  r: Omit<CaptureRecord, "id" | "createdAt" | "orderId" | "outcome" | "outcomeAt">
+): Promise<CaptureRecord> {
+  const record: CaptureRecord = {
+    ...r,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    orderId: r.order?.orderId ?? orderIdFromUrl(r.url),
+    outcome: null,
+    outcomeAt: null,
+  };
+  await done((await store("readwrite")).add(record));
+  await prune();
+  return record;
+}
+
+/**
+ * Automatic detection reports the same errors again whenever the page
+ * re-renders or is revisited. One "auto" record per order (or page, without an
+ * order ID) and error text is kept; later reports are dropped.
+ */
+export async function addAutoCapture(
+  r: Omit<CaptureRecord, "id" | "createdAt" | "orderId" | "outcome" | "outcomeAt" | "source">
+): Promise<CaptureRecord | null> {
+  const orderId = r.order?.orderId ?? orderIdFromUrl(r.url);
+  const same = (x: CaptureRecord) =>
+    x.source === "auto" && x.errorText === r.errorText && (orderId ? x.orderId === orderId : x.url === r.url);
+  const all = (await done((await store("readonly")).getAll())) as CaptureRecord[];
+  if (all.some(same)) return null;
+  return addCapture({ ...r, source: "auto" });
+}
+
+// Drop the oldest records beyond MAX_RECORDS.
+async function prune() {
+  const s = await store("readwrite");
+  let extra = (await done(s.count())) - MAX_RECORDS;
+  if (extra <= 0) return;
+
+  const cursorReq = s.index("createdAt").openCursor();
+  await new Promise<void>((resolve, reject) => {
+    cursorReq.onsuccess = () => {
+      const cur = cursorReq.result;
+      if (!cur || extra-- <= 0) return resolve();
+      cur.delete();
+      cur.continue();
+    };
+    cursorReq.onerror = () => reject(cursorReq.error);
+  });
+}
+
+export async function setCaptureOutcome(id: string, outcome: Outcome | null) {
+  const s = await store("readwrite");
+  const record = (await done(s.get(id))) as CaptureRecord | undefined;
+  if (!record) throw new Error(`Unknown capture: ${id}`);
+  record.outcome = outcome;
+  record.outcomeAt = outcome ? new Date().toISOString() : null;
+  await done(s.put(record));
+  return record;
+}
+
+function matchesFilter(r: CaptureRecord, f: CaptureFilter) {
+  const has = (v: string | null, want?: string) => !want || String(v || "").toLowerCase() === want.toLowerCase();
+  if (!has(r.orderId, f.orderId) || !has(r.fc, f.fc)) return false;
+  if (f.kbId && !r.matches.some((m) => m.id === f.kbId)) return false;
+  if (f.outcome && (r.outcome ?? "none") !== f.outcome) return false;
+
+  const q = (f.query || "").trim().toLowerCase();
+  if (!q) return true;
+  return [r.errorText, r.orderId, r.fc, r.country, r.shippingMethod, r.url, ...r.matches.map((m) => m.title)]
+    .some((v) => String(v || "").toLowerCase().includes(q));
+}
+
+export function filterCaptures(records: CaptureRecord[], filter: CaptureFilter) {
+  return records.filter((r) => matchesFilter(r, filter));
+}
+
+// Newest first.
+export async function listCaptures(filter: CaptureFilter = {}): Promise<CaptureRecord[]> {
+  const all = (await done((await store("readonly")).index("createdAt").getAll())) as CaptureRecord[];
+  return filterCaptures(all.reverse(), filter);
+}
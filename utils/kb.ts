@@ -0,0 +1,41 @@
+export type KBLink = { label: string; url: string };
+
+// Conditions under which an entry applies. List values match if any entry
+// matches; every key that is present must hold.
+export type KBWhen = {
+  country?: string[];
+  fc?: string[];
+  carrier?: string[];
+  shippingMethod?: string[];
+  fieldPath?: string[];
+  postalCodeRange?: string[];
+  // Substring of the order's merchant or sales channel, e.g. 'Amazon'.
+  merchant?: string[];
+  codOnly?: boolean;
+  poBoxOnly?: boolean;
+  // The parcel weighs more than / the order has more items than this.
+  weightOverKg?: number;
+  quantityOver?: number;
+};
+
+// Title and fix steps in another language; either can be left out.
+export type KBTranslation = {
+  title?: string;
+  fixSteps?: string[];
+};
+
+// Shape of one entry in errors.json, as written by scripts/build-kb.mjs.
+export type KBItem = {
+  id: string;
+  title: string;
+  fc?: string;
+  patterns: string[];
+  symptoms?: string;
+  rootCause?: string;
+  fixSteps: string[];
+  links?: KBLink[];
+  tags?: string[];
+  when?: KBWhen;
+  // By language code: "de", "es", "fr", "it".
+  translations?: Record<string, KBTranslation>;
+};
@@ -0,0 +1,184 @@
+import { findCarrier, findCarriers } from "./carriers";
+import { parseCarrierError } from "./errorParser";
+import type { KBItem } from "./kb";
+import { buildIndex, type KBIndex } from "./retrieval";
+import { fieldKey } from "./when";
+
+export function norm(x: unknown) {
+  return String(x ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// Normalised message with surrounding quotes and trailing punctuation removed.
+export function normMsg(x: unknown) {
+  return norm(x)
+    .replace(/^["“”'’]+/, "")
+    .replace(/["“”'’]+$/, "")
+    .replace(/[!?.:;"”'’]+$/g, "")
+    .trim();
+}
+
+// Everything the matcher needs from an entry that doesn't depend on the error.
+export type CompiledEntry = {
+  item: KBItem;
+  titleNorm: string;
+  // Title as normMsg leaves it, for finding it inside an error.
+  titleMsg: string;
+  fcNorm: string;
+  // The errors quoted in the title, as the structured score compares them.
+  titleErrors: { message: string; field: string }[];
+  // Valid regexes only; catch-alls like ".*" are left out.
+  patterns: { source: string; re: RegExp; literal: string | null }[];
+  // Registry ids of the carriers the entry is about.
+  carriers: string[];
+};
+
+/**
+ * The KB ready for matching, built once per KB version: the retrieval index,
+ * each entry's compiled patterns and normalised title, and a trigram prefilter
+ * over the titles so exact title hits don't need a scan of every entry.
+ */
+export type CompiledKB = {
+  items: KBItem[];
+  index: KBIndex;
+  entries: CompiledEntry[];
+  // Trigram -> entries whose title has it.
+  titleGrams: Map<string, number[]>;
+  // Each title's least common trigram -> entries.
+  rareGrams: Map<string, number[]>;
+  // Titles too short to have a trigram.
+  shortTitles: number[];
+};
+
+const CATCH_ALL = new Set([".*", "^.*$"]);
+const MIN_LITERAL = 3;
+
+/**
+ * Lower-case ASCII text every match of the pattern contains, so errors without
+ * it skip the regex. Only text outside groups and classes counts, a character
+ * followed by ? * or { may be absent, and a pattern with an alternation or a
+ * lookaround has none.
+ */
+function requiredLiteral(source: string): string | null {
+  if (source.includes("|") || source.includes("(?")) return null;
+  let best = "";
+  let run = "";
+  let depth = 0;
+  const end = () => {
+    if (run.length > best.length) best = run;
+    run = "";
+  };
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    const next = source[i + 1];
+    if (ch === "\\") {
+      i++;
+      // Escaped punctuation is itself; escaped letters and digits are classes, anchors or references.
+      if (depth || next == null || /[\p{L}\p{N}]/u.test(next) || !/[\x20-\x7e]/.test(next)) end();
+      else if (/[?*{]/.test(source[i + 1] ?? "")) end();
+      else run += next.toLowerCase();
+      continue;
+    }
+    if (ch === "[") {
+      end();
+      while (i < source.length && source[i] !== "]") i += source[i] === "\\" ? 2 : 1;
+      continue;
+    }
+    if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    if (depth || "()^$.*+?{}]".includes(ch) || !/[\x20-\x7e]/.test(ch) || /[?*{]/.test(next ?? "")) {
+      end();
+      continue;
+    }
+    run += ch.toLowerCase();
+  }
+  end();
+  return best.length >= MIN_LITERAL ? best : null;
+}
+
+function grams(s: string) {
+  const out = new Set<string>();
+  for (let i = 0; i + 3 <= s.length; i++) out.add(s.slice(i, i + 3));
+  return out;
+}
+
+function push(map: Map<string, number[]>, key: string, doc: number) {
+  const list = map.get(key);
+  if (!list) map.set(key, [doc]);
+  else if (list[list.length - 1] !== doc) list.push(doc);
+}
+
+function compileEntry(item: KBItem): CompiledEntry {
+  const patterns: CompiledEntry["patterns"] = [];
+  for (const p of Array.isArray(item.patterns) ? item.patterns : []) {
+    const source = String(p ?? "").trim();
+    if (!source || CATCH_ALL.has(source)) continue;
+    try {
+      patterns.push({ source, re: new RegExp(source, "i"), literal: requiredLiteral(source) });
+    } catch {}
+  }
+  const named = [...findCarriers(item.title), ...(item.when?.carrier ?? []).map((c) => findCarrier(c, { method: true }))];
+  return {
+    item,
+    titleNorm: norm(item.title),
+    titleMsg: normMsg(item.title),
+    fcNorm: norm(item.fc),
+    titleErrors: parseCarrierError(item.title).map((e) => ({ message: normMsg(e.message), field: fieldKey(e.fieldPath) })),
+    patterns,
+    carriers: named.filter((c) => c != null).map((c) => c!.id),
+  };
+}
+
+export function compileKB(items: KBItem[]): CompiledKB {
+  const entries = items.map(compileEntry);
+  const titleGrams = new Map<string, number[]>();
+  const rareGrams = new Map<string, number[]>();
+  const shortTitles: number[] = [];
+
+  const titleGramSets = entries.map((e) => grams(e.titleNorm));
+  titleGramSets.forEach((set, doc) => {
+    for (const g of set) push(titleGrams, g, doc);
+  });
+  titleGramSets.forEach((set, doc) => {
+    if (!set.size) {
+      if (entries[doc].titleNorm) shortTitles.push(doc);
+      return;
+    }
+    let rare = "";
+    for (const g of set) if (!rare || titleGrams.get(g)!.length < titleGrams.get(rare)!.length) rare = g;
+    push(rareGrams, rare, doc);
+  });
+
+  return { items, index: buildIndex(items), entries, titleGrams, rareGrams, shortTitles };
+}
+
+const compiled = new WeakMap<KBItem[], CompiledKB>();
+
+export function compiledFor(items: KBItem[]) {
+  let kb = compiled.get(items);
+  if (!kb) compiled.set(items, (kb = compileKB(items)));
+  return kb;
+}
+
+/**
+ * Entries whose normalised title may equal, contain or be contained in the
+ * normalised error, in KB order. A title inside the error has its rarest
+ * trigram there; an error inside a title shares all of its trigrams, so the
+ * least common one narrows it down.
+ */
+export function exactCandidates(kb: CompiledKB, eNorm: string): CompiledEntry[] {
+  if (!eNorm) return [];
+  const q = grams(eNorm);
+  if (!q.size) return kb.entries;
+
+  const docs = new Set<number>(kb.shortTitles);
+  let narrowest: number[] | null = null;
+  for (const g of q) {
+    for (const doc of kb.rareGrams.get(g) ?? []) docs.add(doc);
+    const list = kb.titleGrams.get(g) ?? [];
+    if (!narrowest || list.length < narrowest.length) narrowest = list;
+  }
+  for (const doc of narrowest ?? []) docs.add(doc);
+  return Array.from(docs)
+    .sort((a, b) => a - b)
+    .map((doc) => kb.entries[doc]);
+}
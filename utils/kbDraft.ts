@@ -0,0 +1,120 @@
+import { parseCarrierError } from "./errorParser";
+import type { KBItem, KBWhen } from "./kb";
+
+// Same rules as slugify() in scripts/import-notion-csv-flex.py, so ids line up with imported entries.
+export function slugify(s: string) {
+  const out = String(s || "")
+    .trim()
+    .toLowerCase()
+    .replace(/["“”]/g, "")
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/_+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return out ? out.slice(0, 80) : "untitled";
+}
+
+// Single-quoted YAML scalar, as the importer writes them.
+function yamlQuote(s: string) {
+  return "'" + String(s || "").replace(/'/g, "''") + "'";
+}
+
+function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * A new entry for an error nothing matched. The title is the whole captured
+ * text, the pattern is the first parsed error's message as a literal regex,
+ * and fixSteps is left for the author to fill in.
+ */
+export function newKBEntry(args: { errorText: string; fc?: string | null }): KBItem {
+  const title = String(args.errorText || "").replace(/\s+/g, " ").trim();
+  const primary = parseCarrierError(title)[0]?.message || title;
+  return {
+    id: slugify(title),
+    title,
+    patterns: [escapeRegex(primary)],
+    fixSteps: [],
+    ...(args.fc ? { fc: args.fc } : {}),
+  };
+}
+
+// Draft a kb/errors/*.yml entry from newKBEntry, for the popup's "Propose a KB entry".
+export function draftKBEntry(args: { errorText: string; fc?: string | null }) {
+  const { id, title, patterns, fc } = newKBEntry(args);
+
+  const y = [
+    `id: ${yamlQuote(id)}`,
+    `title: ${yamlQuote(title)}`,
+    "patterns:",
+    `  - ${yamlQuote(patterns[0])}`,
+    "# build-kb.mjs rejects entries without at least one fix step.",
+    "fixSteps: []",
+  ];
+  if (fc) y.push(`fc: ${yamlQuote(fc)}`);
+
+  return { id, filename: `${id}.yml`, yaml: y.join("\n") + "\n" };
+}
+
+// One value as a scalar, several as a flow list, like the hand-written `when:` blocks.
+function yamlList(v: string[]) {
+  return v.length === 1 ? yamlQuote(v[0]) : `[${v.map(yamlQuote).join(", ")}]`;
+}
+
+function whenYaml(when: KBWhen) {
+  return Object.entries(when)
+    .filter(([, v]) => v != null && !(Array.isArray(v) && !v.length))
+    .map(([k, v]) => `  ${k}: ${Array.isArray(v) ? yamlList(v) : String(v)}`);
+}
+
+/**
+ * An edited entry as kb/errors/<id>.yml, in the importer's key order and
+ * quoting, so build-kb.mjs reads back the entry it was made from. Entries in
+ * errors.json have no `examples:`; keep those from the file being replaced.
+ */
+export function entryYaml(item: KBItem) {
+  const y = [`id: ${yamlQuote(item.id)}`, `title: ${yamlQuote(item.title)}`, "patterns:"];
+  for (const p of item.patterns) y.push(`  - ${yamlQuote(p)}`);
+  y.push("fixSteps:");
+  for (const st of item.fixSteps) y.push(`  - ${yamlQuote(st)}`);
+  if (item.links?.length) {
+    y.push("links:");
+    for (const l of item.links) y.push(`  - label: ${yamlQuote(l.label)}`, `    url: ${yamlQuote(l.url)}`);
+  }
+  if (item.fc) y.push(`fc: ${yamlQuote(item.fc)}`);
+  if (item.symptoms) y.push(`symptoms: ${yamlQuote(item.symptoms)}`);
+  if (item.rootCause) y.push(`rootCause: ${yamlQuote(item.rootCause)}`);
+  if (item.tags?.length) {
+    y.push("tags:");
+    for (const t of item.tags) y.push(`  - ${yamlQuote(t)}`);
+  }
+  const when = item.when ? whenYaml(item.when) : [];
+  if (when.length) y.push("when:", ...when);
+  const translations = Object.entries(item.translations ?? {});
+  if (translations.length) {
+    y.push("translations:");
+    for (const [lang, t] of translations) {
+      y.push(`  ${lang}:`);
+      if (t.title) y.push(`    title: ${yamlQuote(t.title)}`);
+      if (t.fixSteps?.length) {
+        y.push("    fixSteps:");
+        for (const st of t.fixSteps) y.push(`      - ${yamlQuote(st)}`);
+      }
+    }
+  }
+  return y.join("\n") + "\n";
+}
+
+// Entries edited in the KB editor, by id, until they are exported and discarded.
+export type KBDrafts = Record<string, KBItem>;
+
+const DRAFTS_KEY = "kb_drafts";
+
+export async function loadDrafts(): Promise<KBDrafts> {
+  const r = await browser.storage.local.get(DRAFTS_KEY);
+  return (r?.[DRAFTS_KEY] as KBDrafts | undefined) ?? {};
+}
+
+export async function saveDrafts(drafts: KBDrafts) {
+  await browser.storage.local.set({ [DRAFTS_KEY]: drafts });
+}
@@ -0,0 +1,137 @@
+import { HINT_SEVERITIES, type HintRule } from "./hints";
+import type { KBItem, KBWhen } from "./kb";
+import { LANGUAGES } from "./language";
+
+// Written next to errors.json by scripts/build-kb.mjs. `hints` describes hints.json.
+export type KBManifest = {
+  schemaVersion: number;
+  version: string;
+  sha256: string;
+  count: number;
+  hints?: { sha256: string; count: number };
+};
+
+export const KB_SCHEMA_VERSION = 1;
+
+// The `when:` conditions an entry may use; scripts/build-kb.mjs checks the YAML against these too.
+export const WHEN_LIST_KEYS = ["country", "fc", "carrier", "shippingMethod", "fieldPath", "postalCodeRange", "merchant"];
+export const WHEN_FLAG_KEYS = ["codOnly", "poBoxOnly"];
+export const WHEN_NUMBER_KEYS = ["weightOverKg", "quantityOver"];
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+// " (id)" after an entry's or hint's position, when it has one.
+function idSuffix(v: unknown) {
+  return isRecord(v) && typeof v.id === "string" && v.id ? ` (${v.id})` : "";
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "string");
+}
+
+function checkWhen(when: unknown, where: string): KBWhen {
+  if (!when || typeof when !== "object" || Array.isArray(when)) throw new Error(`${where}: when must be an object`);
+  for (const [key, value] of Object.entries(when)) {
+    if (WHEN_FLAG_KEYS.includes(key)) {
+      if (typeof value !== "boolean") throw new Error(`${where}: when.${key} must be a boolean`);
+    } else if (WHEN_NUMBER_KEYS.includes(key)) {
+      if (typeof value !== "number" || !(value >= 0)) throw new Error(`${where}: when.${key} must be a number`);
+    } else if (!WHEN_LIST_KEYS.includes(key)) {
+      throw new Error(`${where}: unknown condition when.${key}`);
+    } else if (!isStringArray(value)) {
+      throw new Error(`${where}: when.${key} must be a list of strings`);
+    }
+  }
+  return when as KBWhen;
+}
+
+function checkTranslations(translations: unknown, where: string) {
+  if (!translations || typeof translations !== "object" || Array.isArray(translations)) {
+    throw new Error(`${where}: translations must be an object`);
+  }
+  for (const [lang, t] of Object.entries(translations as Record<string, any>)) {
+    if (lang === "en" || !(LANGUAGES as readonly string[]).includes(lang)) {
+      throw new Error(`${where}: unsupported translation language '${lang}'`);
+    }
+    if (t?.title != null && typeof t.title !== "string") throw new Error(`${where}: translations.${lang}.title must be a string`);
+    if (t?.fixSteps != null && !isStringArray(t.fixSteps)) {
+      throw new Error(`${where}: translations.${lang}.fixSteps must be a list of strings`);
+    }
+  }
+}
+
+/**
+ * Check a downloaded errors.json payload before it replaces the cached copy.
+ * Throws on the first problem.
+ */
+export function validateKBItems(data: unknown): KBItem[] {
+  if (!Array.isArray(data)) throw new Error("KB payload is not a list");
+  if (!data.length) throw new Error("KB payload is empty");
+
+  const seen = new Set<string>();
+  data.forEach((it: unknown, i) => {
+    const where = `entry ${i}${idSuffix(it)}`;
+    if (!isRecord(it)) throw new Error(`${where}: not an object`);
+    if (typeof it.id !== "string" || !it.id) throw new Error(`${where}: missing id`);
+    if (seen.has(it.id)) throw new Error(`${where}: duplicate id`);
+    seen.add(it.id);
+    if (typeof it.title !== "string" || !it.title) throw new Error(`${where}: missing title`);
+    if (!isStringArray(it.patterns) || !it.patterns.length) throw new Error(`${where}: missing patterns`);
+    if (!isStringArray(it.fixSteps) || !it.fixSteps.length) throw new Error(`${where}: missing fixSteps`);
+    if (it.tags != null && !isStringArray(it.tags)) throw new Error(`${where}: tags must be a list of strings`);
+    if (it.links != null) {
+      const ok = Array.isArray(it.links) && it.links.every((l) => isRecord(l) && typeof l.url === "string");
+      if (!ok) throw new Error(`${where}: links must have a url`);
+    }
+    if (it.when != null) checkWhen(it.when, where);
+    if (it.translations != null) checkTranslations(it.translations, where);
+  });
+  return data as KBItem[];
+}
+
+/**
+ * Check a downloaded hints.json payload, like validateKBItems. An empty list is
+ * fine: it means every hint was removed.
+ */
+export function validateHints(data: unknown): HintRule[] {
+  if (!Array.isArray(data)) throw new Error("Hints payload is not a list");
+  const seen = new Set<string>();
+  data.forEach((h: unknown, i) => {
+    const where = `hint ${i}${idSuffix(h)}`;
+    if (!isRecord(h)) throw new Error(`${where}: not an object`);
+    if (typeof h.id !== "string" || !h.id) throw new Error(`${where}: missing id`);
+    if (seen.has(h.id)) throw new Error(`${where}: duplicate id`);
+    seen.add(h.id);
+    if (!HINT_SEVERITIES.some((s) => s === h.severity)) throw new Error(`${where}: severity must be info, warning or critical`);
+    if (typeof h.text !== "string" || !h.text) throw new Error(`${where}: missing text`);
+    if (h.link != null && !(isRecord(h.link) && typeof h.link.url === "string")) throw new Error(`${where}: link must have a url`);
+    const hintWhen = h.when ?? {};
+    if (!isRecord(hintWhen)) throw new Error(`${where}: when must be an object`);
+    const { errorPattern, uncommonDestination, ...when } = hintWhen;
+    if (errorPattern != null && !isStringArray(errorPattern)) throw new Error(`${where}: when.errorPattern must be a list of strings`);
+    if (uncommonDestination != null && typeof uncommonDestination !== "boolean") {
+      throw new Error(`${where}: when.uncommonDestination must be a boolean`);
+    }
+    checkWhen(when, where);
+  });
+  return data as HintRule[];
+}
+
+export function validateKBManifest(m: unknown): KBManifest {
+  if (!isRecord(m)) throw new Error("KB manifest is not an object");
+  if (m.schemaVersion !== KB_SCHEMA_VERSION) throw new Error(`Unsupported KB schema version: ${m.schemaVersion}`);
+  if (typeof m.version !== "string" || !m.version) throw new Error("KB manifest has no version");
+  if (typeof m.sha256 !== "string" || !/^[0-9a-f]{64}$/.test(m.sha256)) throw new Error("KB manifest has no sha256");
+  if (typeof m.count !== "number") throw new Error("KB manifest has no count");
+  if (m.hints != null && !(isRecord(m.hints) && typeof m.hints.sha256 === "string" && typeof m.hints.count === "number")) {
+    throw new Error("KB manifest has an invalid hints entry");
+  }
+  return m as KBManifest;
+}
+
+export async function sha256Hex(text: string) {
+  const buf = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(buf), (b) => b.toString(16).padStart(2, "0")).join("");
+}
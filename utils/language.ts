@@ -0,0 +1,206 @@
+import type { KBItem } from "./kb";
+
+// Languages of the FCs' carriers. The KB is written in English; entries can add the others.
+export const LANGUAGES = ["en", "de", "es", "fr", "it"] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  de: "Deutsch",
+  es: "Español",
+  fr: "Français",
+  it: "Italiano",
+};
+
+// Common words, folded like foldText does. Words under three letters never become terms anyway.
+const STOP_WORDS: Record<Language, string[]> = {
+  en: [
+    "the", "and", "or", "to", "of", "in", "on", "for", "with", "without", "please", "we", "can", "not", "is", "are", "be",
+    "this", "that", "it", "an", "a", "at", "by", "from", "has", "have", "was", "were", "your", "you", "error", "errors",
+    "message", "messages", "occurred",
+  ],
+  de: ["der", "die", "das", "und", "oder", "ist", "nicht", "ein", "eine", "mit", "von", "fur", "zu", "den", "dem", "des", "sie", "ihre", "ihnen", "sind", "bitte", "fehler", "wurde", "kann", "keine"],
+  es: ["el", "los", "las", "y", "o", "no", "para", "con", "es", "del", "una", "por", "que", "este", "esta", "debe", "error"],
+  fr: ["et", "ou", "les", "des", "du", "pas", "pour", "avec", "une", "est", "dans", "sur", "que", "veuillez", "erreur", "doit"],
+  it: ["il", "lo", "la", "le", "gli", "di", "da", "del", "della", "non", "per", "con", "un", "una", "che", "e", "deve", "errore", "sono"],
+};
+
+/**
+ * Carrier wording in each language, folded, with the English terms the KB
+ * uses for it ("house_number" and "house number" both index as house, number).
+ * Only the table of the text's own language applies, so an English "via" or
+ * "cap" stays what it is.
+ */
+const SYNONYMS: Record<Exclude<Language, "en">, [string, string][]> = {
+  de: [
+    ["hausnummer", "house_number"],
+    ["hausnr", "house_number"],
+    ["postleitzahl", "postal_code"],
+    ["plz", "postal_code"],
+    ["strasse", "street"],
+    ["ort", "city"],
+    ["stadt", "city"],
+    ["telefonnummer", "phone"],
+    ["telefon", "phone"],
+    ["e-mail-adresse", "email"],
+    ["e-mail", "email"],
+    ["gewicht", "weight"],
+    ["ungultig", "invalid"],
+    ["ungultige", "invalid"],
+    ["fehlt", "missing"],
+    ["fehlende", "missing"],
+    ["erforderlich", "required"],
+    ["pflichtfeld", "required"],
+    ["land", "country"],
+    ["empfanger", "receiver"],
+    ["absender", "sender"],
+    ["adresse", "address"],
+    ["sendung", "shipment"],
+    ["paket", "parcel"],
+    ["zugangsdaten", "credentials"],
+    ["anmeldeinformationen", "credentials"],
+  ],
+  es: [
+    ["codigo postal", "postal_code"],
+    ["numero de casa", "house_number"],
+    ["numero de la calle", "house_number"],
+    ["numero de calle", "house_number"],
+    ["calle", "street"],
+    ["ciudad", "city"],
+    ["localidad", "city"],
+    ["telefono", "phone"],
+    ["correo electronico", "email"],
+    ["peso", "weight"],
+    ["no valido", "invalid"],
+    ["no valida", "invalid"],
+    ["invalido", "invalid"],
+    ["obligatorio", "required"],
+    ["requerido", "required"],
+    ["pais", "country"],
+    ["direccion", "address"],
+    ["destinatario", "receiver"],
+    ["remitente", "sender"],
+    ["envio", "shipment"],
+    ["paquete", "parcel"],
+  ],
+  fr: [
+    ["code postal", "postal_code"],
+    ["numero de rue", "house_number"],
+    ["numero de maison", "house_number"],
+    ["rue", "street"],
+    ["ville", "city"],
+    ["telephone", "phone"],
+    ["adresse e-mail", "email"],
+    ["courriel", "email"],
+    ["poids", "weight"],
+    ["non valide", "invalid"],
+    ["invalide", "invalid"],
+    ["obligatoire", "required"],
+    ["requis", "required"],
+    ["pays", "country"],
+    ["adresse", "address"],
+    ["destinataire", "receiver"],
+    ["expediteur", "sender"],
+    ["expedition", "shipment"],
+    ["envoi", "shipment"],
+    ["colis", "parcel"],
+  ],
+  it: [
+    ["codice postale", "postal_code"],
+    ["cap", "postal_code"],
+    ["numero civico", "house_number"],
+    ["via", "street"],
+    ["citta", "city"],
+    ["comune", "city"],
+    ["telefono", "phone"],
+    ["peso", "weight"],
+    ["non valido", "invalid"],
+    ["non valida", "invalid"],
+    ["obbligatorio", "required"],
+    ["richiesto", "required"],
+    ["paese", "country"],
+    ["nazione", "country"],
+    ["indirizzo", "address"],
+    ["destinatario", "receiver"],
+    ["mittente", "sender"],
+    ["spedizione", "shipment"],
+    ["pacco", "parcel"],
+  ],
+};
+
+// Letters only some of the languages use.
+const LETTERS: [RegExp, Language][] = [
+  [/[ßäöü]/i, "de"],
+  [/[ñ¿¡]/i, "es"],
+  [/[çœ]/i, "fr"],
+];
+
+const stopSets = Object.fromEntries(LANGUAGES.map((l) => [l, new Set(STOP_WORDS[l])])) as Record<Language, Set<string>>;
+const allStops = new Set(Object.values(STOP_WORDS).flat());
+
+// One regex per language matching any of its synonyms as whole words, longest first.
+const synonymRes = Object.fromEntries(
+  Object.entries(SYNONYMS).map(([lang, pairs]) => {
+    const alts = pairs.map(([from]) => from).sort((a, b) => b.length - a.length);
+    const source = alts.map((a) => a.replace(/ /g, "\\s+")).join("|");
+    return [lang, new RegExp(`(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])`, "gu")];
+  })
+) as Record<Exclude<Language, "en">, RegExp>;
+
+const synonymMaps = Object.fromEntries(
+  Object.entries(SYNONYMS).map(([lang, pairs]) => [lang, new Map(pairs)])
+) as Record<Exclude<Language, "en">, Map<string, string>>;
+
+// Lower case, accents stripped, so "verfügbar" and "verfugbar" are the same term.
+export function foldText(s: string) {
+  return String(s || "")
+    .normalize("NFD")
+    .replace(/\p{M}+/gu, "")
+    .toLowerCase();
+}
+
+/**
+ * Best guess at the language of an error or entry: stop words, carrier
+ * wording and telltale letters of each language, against English's stop
+ * words. Short or mixed text with nothing telling is English.
+ */
+export function detectLanguage(text: string): Language {
+  const raw = String(text || "");
+  const folded = foldText(raw);
+  const words = folded.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+  const score = Object.fromEntries(LANGUAGES.map((l) => [l, 0])) as Record<Language, number>;
+  for (const w of words) for (const l of LANGUAGES) if (stopSets[l].has(w)) score[l]++;
+  for (const [lang, re] of Object.entries(synonymRes)) score[lang as Language] += folded.match(re)?.length ?? 0;
+  for (const [re, lang] of LETTERS) if (re.test(raw)) score[lang] += 2;
+
+  let best: Language = "en";
+  for (const l of LANGUAGES) if (score[l] > score[best]) best = l;
+  return best;
+}
+
+// Whether a folded word is a stop word in the language (and English, which every error mixes in).
+export function isStopWord(word: string, lang?: Language) {
+  if (!lang) return allStops.has(word);
+  return stopSets.en.has(word) || stopSets[lang].has(word);
+}
+
+// Folded text with the language's carrier wording replaced by the KB's English terms.
+export function canonicalize(text: string, lang: Language) {
+  const folded = foldText(text);
+  if (lang === "en") return folded;
+  const map = synonymMaps[lang];
+  return folded.replace(synonymRes[lang], (m) => " " + (map.get(m.replace(/\s+/g, " ")) ?? m).replace(/_/g, " ") + " ");
+}
+
+// Title and fix steps in the agent's language, each falling back to English on its own.
+export function localize(item: KBItem, lang: Language | string | undefined) {
+  const t = lang && lang !== "en" ? item.translations?.[lang] : undefined;
+  return {
+    title: t?.title || item.title,
+    fixSteps: t?.fixSteps?.length ? t.fixSteps : item.fixSteps,
+    translatedTitle: !!t?.title,
+    translatedSteps: !!t?.fixSteps?.length,
+  };
+}
@@ -0,0 +1,377 @@
+import type { KBItem, KBWhen } from "./kb";
+import { carrierFromMethod, findCarrier, findCarriers } from "./carriers";
+import { parseCarrierError, type ParsedError } from "./errorParser";
+import { errorSignature, feedbackScore, type FeedbackVote } from "./feedback";
+import { compiledFor, exactCandidates, norm, normMsg, type CompiledEntry, type CompiledKB } from "./kbCompiled";
+import { search, type RetrievalHit } from "./retrieval";
+import { detectLanguage, type Language } from "./language";
+import type { OrderContext } from "./orderContext";
+import { evaluateWhen, fieldKey } from "./when";
+
+// Page facts detected by the capture content script; the order facts come from its OrderContext.
+export type MatchContext = {
+  fcFromPage?: string | null;
+  countryFromPage?: string | null;
+  shippingMethodFromPage?: string | null;
+  postalCode?: string | null;
+  merchant?: string | null;
+  cod?: boolean | null;
+  poBox?: boolean | null;
+  weightKg?: number | null;
+  lengthCm?: number | null;
+  quantity?: number | null;
+};
+
+// What the capture script sends about the page, as a message or a capture response.
+export type PageFacts = {
+  fcFromPage?: string | null;
+  countryFromPage?: string | null;
+  shippingMethodFromPage?: string | null;
+  order?: Partial<OrderContext> | null;
+};
+
+// `homeFc` stands in when the page doesn't show one.
+export function contextFromPage(page: PageFacts | null | undefined, homeFc?: string): MatchContext {
+  const order = page?.order ?? {};
+  return {
+    fcFromPage: page?.fcFromPage || homeFc || null,
+    countryFromPage: page?.countryFromPage ?? null,
+    shippingMethodFromPage: page?.shippingMethodFromPage ?? null,
+    postalCode: order.postalCode ?? null,
+    merchant: order.merchant ?? null,
+    cod: order.cod ?? null,
+    poBox: order.poBox ?? null,
+    weightKg: order.weightKg ?? null,
+    lengthCm: order.lengthCm ?? null,
+    quantity: order.quantity ?? null,
+  };
+}
+
+export type MatchInput = {
+  errorText: string;
+  context?: MatchContext;
+};
+
+// errorIndex points into MatchResult.errors when the match came from one sub-error.
+// conditions lists the entry's `when:` keys that the page context satisfied.
+// feedback is the net agent vote for the entry on similar errors, when there is any.
+// why says which rule produced the score, for the popup's "Why this match?".
+export type ScoredMatch = {
+  item: KBItem;
+  score: number;
+  errorIndex?: number;
+  conditions?: (keyof KBWhen)[];
+  feedback?: number;
+  why?: MatchExplanation;
+};
+
+// exact: title equals or contains the error (or the other way round); structured:
+// same field and message as an error quoted in the title; pattern: a regex hit;
+// title: the title appears in the error; similar: BM25/trigram similarity only;
+// context: nothing textual scored, the entry surfaced on its `when:` block.
+export type MatchReason = "exact" | "structured" | "pattern" | "title" | "similar" | "context";
+
+export type MatchExplanation = {
+  reason: MatchReason;
+  // Score of the winning rule before FC, `when:` and feedback adjustments.
+  base: number;
+  // The regex that hit, and the part of the error text it (or the title) matched.
+  pattern?: string;
+  matched?: string;
+  // Error terms found in the entry, with the similarity they add up to.
+  terms: string[];
+  lexical: number;
+  ngram: number;
+  fcBoost: number;
+  // Up when the entry names the order's carrier, down when it only names others.
+  carrierBoost: number;
+  // A known page fact contradicts the entry's `when:` block.
+  whenMismatch?: boolean;
+};
+
+export type MatchResult = {
+  errors: ParsedError[];
+  matches: ScoredMatch[];
+  exactCount: number;
+  exactTitles: string[];
+  normError: string;
+  // Language the error was tokenized in.
+  language: Language;
+};
+
+export type MatchOptions = {
+  limit?: number;
+  minScore?: number;
+  fcBoost?: number;
+  feedback?: FeedbackVote[];
+  // `items` compiled by compileKB; compiled and cached per items array when omitted.
+  compiled?: CompiledKB;
+};
+
+const DEFAULT_LIMIT = 5;
+const FC_BOOST = 0.12;
+const CARRIER_BOOST = 0.05;
+const CARRIER_PENALTY = 0.1;
+const WHEN_BOOST = 0.1;
+const WHEN_PENALTY = 0.5;
+const WHEN_CONTEXT_SCORE = 0.5;
+const FEEDBACK_BOOST = 0.05;
+const FEEDBACK_MAX_BOOST = 0.15;
+const FEEDBACK_PENALTY = 0.5;
+// A single down vote may be a mis-click; demote from the second one on.
+const FEEDBACK_DEMOTE_AT = -1.5;
+
+// Wording that is close without matching a pattern tops out below the pattern and title tiers.
+const FUZZY_MAX = 0.8;
+const FUZZY_MIN = 0.3;
+const FUZZY_LEXICAL = 0.6;
+const FUZZY_NGRAM = 0.4;
+
+// One error or sub-error as every retrieved entry is scored against it, normalised once.
+type Query = {
+  err: ParsedError | undefined;
+  errMessage: string;
+  errField: string;
+  // The parsed message, else the whole text: what patterns and titles are looked for in.
+  target: string;
+  targetNorm: string;
+  targetLower: string;
+  pageFc: string;
+  boost: number;
+  carriers: string[];
+};
+
+function fcBoost(entry: CompiledEntry, q: Query) {
+  if (!q.pageFc) return 0;
+  return entry.fcNorm && entry.fcNorm.includes(q.pageFc) ? q.boost : 0;
+}
+
+// The page's shipping method and the error text both say which carrier the label was for.
+function queryCarriers(ctx: MatchContext, errorText: string, err: ParsedError | undefined) {
+  const named = [findCarrier(ctx.shippingMethodFromPage, { method: true }), findCarrier(err?.carrier), ...findCarriers(errorText)];
+  return named.filter((c) => c != null).map((c) => c!.id);
+}
+
+// Carriers the entry is about are the ones named in its title or its `when.carrier`.
+function carrierBoost(entry: CompiledEntry, carriers: string[]) {
+  if (!carriers.length) return 0;
+  const own = entry.carriers;
+  if (!own.length) return 0;
+  return own.some((c) => carriers.includes(c)) ? CARRIER_BOOST : -CARRIER_PENALTY;
+}
+
+// Same field and message as one of the errors quoted in the entry's title.
+function structuredScore(entry: CompiledEntry, q: Query) {
+  if (!q.err) return 0;
+  let sc = 0;
+  for (const own of entry.titleErrors) {
+    if (own.message !== q.errMessage) continue;
+    sc = Math.max(sc, own.field === q.errField ? 0.97 : 0.9);
+  }
+  return sc;
+}
+
+// Conditional entries outrank generic ones when their `when:` block holds, and
+// drop below them when a known page fact rules them out.
+function applyWhen(m: ScoredMatch, err: ParsedError | undefined, ctx: MatchContext): ScoredMatch {
+  if (!m.item.when) return m;
+  const res = evaluateWhen(m.item.when, {
+    country: ctx.countryFromPage,
+    fc: ctx.fcFromPage,
+    carrier: carrierFromMethod(ctx.shippingMethodFromPage) ?? err?.carrier,
+    shippingMethod: ctx.shippingMethodFromPage,
+    fieldPath: err?.fieldPath,
+    postalCode: ctx.postalCode,
+    merchant: ctx.merchant,
+    cod: ctx.cod,
+    poBox: ctx.poBox,
+    weightKg: ctx.weightKg,
+    quantity: ctx.quantity,
+  });
+  if (res.status === "mismatch") {
+    return { ...m, score: m.score * WHEN_PENALTY, why: m.why && { ...m.why, whenMismatch: true } };
+  }
+  if (res.status === "unknown" || (m.score === 0 && !res.matched.length)) return m;
+  const why = m.why && m.score === 0 ? { ...m.why, reason: "context" as const, base: 0 } : m.why;
+  return { ...m, score: Math.min(1, Math.max(m.score, WHEN_CONTEXT_SCORE) + WHEN_BOOST), conditions: res.matched, why };
+}
+
+// Agents' thumbs up/down on earlier, similar errors.
+function applyFeedback(m: ScoredMatch, votes: FeedbackVote[], signatures: string[]): ScoredMatch {
+  if (!votes.length || !signatures.length) return m;
+  const net = feedbackScore(votes, m.item.id, signatures);
+  if (!net) return m;
+  if (net <= FEEDBACK_DEMOTE_AT) return { ...m, score: m.score * FEEDBACK_PENALTY, feedback: net };
+  if (net > 0) return { ...m, score: Math.min(1, m.score + Math.min(FEEDBACK_MAX_BOOST, net * FEEDBACK_BOOST)), feedback: net };
+  return { ...m, feedback: net };
+}
+
+function byScore(a: ScoredMatch, b: ScoredMatch) {
+  return b.score - a.score || (b.conditions?.length ?? 0) - (a.conditions?.length ?? 0);
+}
+
+/**
+ * Calibrated fuzzy similarity: the share of the error's BM25 weight the entry
+ * covers, blended with trigram similarity, scaled into the band below exact,
+ * structured, pattern and title hits.
+ */
+function fuzzyScore(hit: RetrievalHit) {
+  const s = FUZZY_LEXICAL * hit.lexical + FUZZY_NGRAM * hit.ngram;
+  return s >= FUZZY_MIN ? FUZZY_MAX * s : 0;
+}
+
+// Score bands: 1.0 exact title, 0.9-0.97 same field and message, 0.95 pattern,
+// 0.85 title contained in the error, up to 0.8 for similar wording.
+function scoreItem(entry: CompiledEntry, hit: RetrievalHit, q: Query): ScoredMatch {
+  const { item } = entry;
+  const why: MatchExplanation = {
+    reason: "similar",
+    base: fuzzyScore(hit),
+    terms: hit.shared,
+    lexical: hit.lexical,
+    ngram: hit.ngram,
+    fcBoost: 0,
+    carrierBoost: 0,
+  };
+  const take = (sc: number, reason: MatchReason, extra: Partial<MatchExplanation>) => {
+    if (sc > why.base) Object.assign(why, { base: sc, reason, ...extra });
+  };
+
+  take(structuredScore(entry, q), "structured", { matched: q.err?.message });
+
+  // Regex patterns get strong score
+  for (const p of entry.patterns) {
+    if (p.literal && !q.targetLower.includes(p.literal)) continue;
+    const hitText = p.re.exec(q.target);
+    if (hitText) {
+      take(0.95, "pattern", { pattern: p.source, matched: hitText[0] });
+      break;
+    }
+  }
+
+  // Title containment (medium-strong)
+  if (entry.titleMsg && q.targetNorm.includes(entry.titleMsg)) {
+    take(0.85, "title", { matched: item.title });
+  }
+
+  if (!(why.base > 0)) return { item, score: 0, why };
+  why.fcBoost = fcBoost(entry, q);
+  why.carrierBoost = carrierBoost(entry, q.carriers);
+  return { item, score: Math.min(1, why.base + why.fcBoost + why.carrierBoost), why };
+}
+
+// Title and error are the same text, or one contains the other; the shorter one is what matched.
+function exactMatch({ item, titleNorm }: CompiledEntry, errorText: string): ScoredMatch {
+  const matched = titleNorm.length <= norm(errorText).length ? item.title : errorText;
+  return {
+    item,
+    score: 1.0,
+    why: { reason: "exact", base: 1.0, matched: matched.trim(), terms: [], lexical: 0, ngram: 0, fcBoost: 0, carrierBoost: 0 },
+  };
+}
+
+// Only entries the retrieval layer found evidence for are scored at all.
+function rank(
+  kb: CompiledKB,
+  errorText: string,
+  err: ParsedError | undefined,
+  ctx: MatchContext,
+  boost: number,
+  votes: FeedbackVote[],
+  lang: Language
+) {
+  const target = err?.message || errorText;
+  const q: Query = {
+    err,
+    errMessage: normMsg(err?.message),
+    errField: fieldKey(err?.fieldPath),
+    target,
+    targetNorm: norm(target),
+    targetLower: target.toLowerCase(),
+    pageFc: norm(ctx.fcFromPage),
+    boost,
+    carriers: queryCarriers(ctx, errorText, err),
+  };
+  const signatures = err ? [errorSignature(err)] : [];
+  return search(kb.index, errorText, lang)
+    .map((hit) => {
+      // A satisfied `when:` block alone is enough to surface an entry the error is related to.
+      const m = scoreItem(kb.entries[hit.doc], hit, q);
+      return applyFeedback(applyWhen(m, err, ctx), votes, signatures);
+    })
+    .filter((x) => x.score > 0)
+    .sort(byScore);
+}
+
+// Best match of every sub-error first, then everything else by score.
+function mergeRanked(lists: ScoredMatch[][]) {
+  const byId = new Map<string, ScoredMatch>();
+  const leaders: ScoredMatch[] = [];
+  for (const list of lists) {
+    const top = list.find((m) => !leaders.some((l) => l.item.id === m.item.id));
+    if (top) leaders.push(top);
+    for (const m of list) {
+      const prev = byId.get(m.item.id);
+      if (!prev || m.score > prev.score) byId.set(m.item.id, m);
+    }
+  }
+  leaders.sort(byScore);
+  const rest = Array.from(byId.values())
+    .filter((m) => !leaders.some((l) => l.item.id === m.item.id))
+    .sort(byScore);
+  return { leaders, all: [...leaders, ...rest] };
+}
+
+/**
+ * Rank KB entries against a captured error. Exact title hits win outright;
+ * otherwise every parsed sub-error is scored on its own by regex, title
+ * containment and BM25/trigram similarity, so each of them gets its own fix,
+ * and nudged towards entries for the page's FC and carrier. Entries with a `when:` block are then re-weighted against the page context,
+ * and agent feedback on similar errors promotes or demotes what's left.
+ */
+export function matchKB(items: KBItem[], input: MatchInput, opts: MatchOptions = {}): MatchResult {
+  const errorText = String(input.errorText || "");
+  const ctx = input.context ?? {};
+  const limit = opts.limit ?? DEFAULT_LIMIT;
+  const minScore = opts.minScore ?? 0;
+  const boost = opts.fcBoost ?? FC_BOOST;
+  const votes = opts.feedback ?? [];
+  const kb = opts.compiled ?? compiledFor(items);
+
+  const eNorm = norm(errorText);
+  const errors = parseCarrierError(errorText);
+  const lang = detectLanguage(errorText);
+
+  const exactHits: ScoredMatch[] = exactCandidates(kb, eNorm)
+    .filter(({ titleNorm }) => titleNorm && (titleNorm.includes(eNorm) || eNorm.includes(titleNorm)))
+    .map((e) => applyWhen(exactMatch(e, errorText), errors.length === 1 ? errors[0] : undefined, ctx))
+    .map((m) => applyFeedback(m, votes, errors.map(errorSignature)))
+    .sort(byScore);
+
+  let matches: ScoredMatch[];
+  if (errors.length > 1) {
+    // Exact title hits only cover part of a multi-error note, so rank them alongside the rest.
+    const merged = mergeRanked([
+      exactHits,
+      ...errors.map((e, i) =>
+        rank(kb, e.fieldPath ? `${e.fieldPath}: ${e.message}` : e.message, e, ctx, boost, votes, lang).map((m) => ({
+          ...m,
+          errorIndex: i,
+        }))
+      ),
+    ]);
+    matches = merged.all.slice(0, Math.max(limit, merged.leaders.length));
+  } else {
+    matches = exactHits.length ? exactHits : rank(kb, errorText, errors[0], ctx, boost, votes, lang);
+    matches = matches.slice(0, limit);
+  }
+
+  return {
+    errors,
+    matches: matches.filter((m) => m.score >= minScore),
+    exactCount: exactHits.length,
+    exactTitles: exactHits.slice(0, 10).map((x) => x.item.title || ""),
+    normError: errors.map((e) => normMsg(e.message)).join(" | ").slice(0, 220),
+    language: lang,
+  };
+}
@@ -0,0 +1,270 @@
+import type { ParsedError } from "./errorParser";
+import type { FeedbackStats } from "./feedback";
+import type { HintRule } from "./hints";
+import type { KBItem } from "./kb";
+import type { Language } from "./language";
+import type { PageFacts, ScoredMatch } from "./matcher";
+import type { OrderContext } from "./orderContext";
+import type { OutboundPayload, OutboundStatus } from "./outbound";
+
+/**
+ * Version of the messages below. Every request and every reply carries it, and
+ * each side only accepts its own, so a capture script left in a tab by an older
+ * version of the extension is told apart from one that found nothing.
+ * Version 1 was the untyped OLI_MATCH_ERROR / _V2 and OLI_KB_STATUS / _V2 set;
+ * version 2 sent one error per OLI_PAGE_ERROR.
+ */
+export const PROTOCOL_VERSION = 3;
+
+export type KBSource = "remote" | "cache" | "bundled";
+
+// Page facts plus the error they were captured with.
+export type ErrorQuery = PageFacts & { errorText: string };
+
+// What the capture script reads off the page; see pageContext in capture.content.ts.
+export type CapturedFacts = {
+  fcFromPage: string | null;
+  countryFromPage: string | null;
+  shippingMethodFromPage: string | null;
+  order: OrderContext;
+};
+
+export type CapturedSnippet = { id: string; text: string; source: string; location: string };
+
+export type KBStatus = {
+  kbSource: KBSource;
+  kbUpdatedAt?: string;
+  kbVersion?: string;
+  kbStale: boolean;
+  kbSyncError: string | null;
+  kbSyncErrorAt: string | null;
+  count: number;
+};
+
+// Every error the capture script detected on the page, with the page facts.
+export type PageErrorsQuery = PageFacts & { errorTexts: string[] };
+
+export type PageErrorResponse = {
+  matches: ScoredMatch[];
+  errors: ParsedError[];
+  hints: HintRule[];
+};
+
+// The debug fields feed the popup's KB info line.
+export type MatchResponse = PageErrorResponse & {
+  kbSource: KBSource;
+  kbUpdatedAt?: string;
+  kbVersion?: string;
+  debugExactCount: number;
+  debugExactTitles: string[];
+  debugNormError: string;
+  language: Language;
+};
+
+// errorIndex picks the sub-error the match was shown for; without it the vote covers them all.
+export type FeedbackRequest = PageFacts & {
+  voteId?: string;
+  kbId: string;
+  kbTitle?: string;
+  vote: number;
+  errorText: string;
+  errorIndex?: number;
+};
+
+export type KBItemsResponse = {
+  items: KBItem[];
+  kbSource: KBSource;
+  kbVersion?: string;
+  kbUpdatedAt?: string;
+};
+
+// One result per query, in order; the bulk triage page only needs the top matches.
+export type BatchResponse = {
+  results: { matches: ScoredMatch[] }[];
+  kbSource: KBSource;
+  kbVersion?: string;
+};
+
+// errorText and source are the top-ranked snippet, for callers that handle one error.
+// No snippets means the page showed no error.
+export type CaptureResponse = CapturedFacts & {
+  errorText: string;
+  source: string;
+  snippets: CapturedSnippet[];
+};
+
+type NoBody = Record<never, never>;
+type Message<Req, Res> = { request: Req; response: Res };
+type Protocol = Record<string, Message<object, object>>;
+
+// Sent with browser.runtime.sendMessage, answered by entrypoints/background.ts.
+export type BackgroundMessages = {
+  OLI_MATCH_ERROR: Message<ErrorQuery, MatchResponse>;
+  OLI_MATCH_BATCH: Message<{ queries: ErrorQuery[] }, BatchResponse>;
+  // From the capture script's automatic detection, one result per error; no errors clears the badge.
+  OLI_PAGE_ERROR: Message<PageErrorsQuery, { results: PageErrorResponse[] }>;
+  OLI_FEEDBACK: Message<FeedbackRequest, { voteId: string }>;
+  OLI_FEEDBACK_STATS: Message<NoBody, { stats: FeedbackStats[] }>;
+  OLI_OUTBOUND_SEND: Message<{ payload: OutboundPayload }, OutboundStatus>;
+  OLI_OUTBOUND_STATUS: Message<NoBody, OutboundStatus>;
+  OLI_OUTBOUND_FLUSH: Message<NoBody, OutboundStatus>;
+  OLI_OUTBOUND_EXPORT: Message<NoBody, { ndjson: string }>;
+  OLI_KB_ITEMS: Message<NoBody, KBItemsResponse>;
+  OLI_KB_STATUS: Message<NoBody, KBStatus>;
+  OLI_KB_REFRESH: Message<NoBody, KBStatus>;
+  OLI_KB_CLEAR_CACHE: Message<NoBody, NoBody>;
+};
+
+// Sent with browser.tabs.sendMessage, answered by entrypoints/capture.content.ts.
+export type TabMessages = {
+  OLI_PING: Message<NoBody, CapturedFacts & { profile: string }>;
+  OLI_CAPTURE_ERROR_TEXT: Message<NoBody, CaptureResponse>;
+  OLI_HIGHLIGHT_SNIPPET: Message<{ id: string; text: string }, { found: boolean }>;
+  // The background's capture when the popup couldn't be opened for it; shown in the inline panel.
+  OLI_SHOW_MATCHES: Message<{ matches: ScoredMatch[] }, NoBody>;
+};
+
+export type Handlers<P extends Protocol> = {
+  [K in keyof P]: (req: P[K]["request"], sender: Browser.runtime.MessageSender) => P[K]["response"] | Promise<P[K]["response"]>;
+};
+
+// A field ending in "?" may be missing or null.
+type FieldKind = "string" | "number" | "object" | "array";
+type Fields = Record<string, FieldKind | `${FieldKind}?`>;
+
+const PAGE_FACTS: Fields = {
+  fcFromPage: "string?",
+  countryFromPage: "string?",
+  shippingMethodFromPage: "string?",
+  order: "object?",
+};
+
+const BACKGROUND_FIELDS: Record<keyof BackgroundMessages, Fields> = {
+  OLI_MATCH_ERROR: { errorText: "string", ...PAGE_FACTS },
+  OLI_MATCH_BATCH: { queries: "array" },
+  OLI_PAGE_ERROR: { errorTexts: "array", ...PAGE_FACTS },
+  OLI_FEEDBACK: {
+    voteId: "string?",
+    kbId: "string",
+    kbTitle: "string?",
+    vote: "number",
+    errorText: "string",
+    errorIndex: "number?",
+    ...PAGE_FACTS,
+  },
+  OLI_FEEDBACK_STATS: {},
+  OLI_OUTBOUND_SEND: { payload: "object" },
+  OLI_OUTBOUND_STATUS: {},
+  OLI_OUTBOUND_FLUSH: {},
+  OLI_OUTBOUND_EXPORT: {},
+  OLI_KB_ITEMS: {},
+  OLI_KB_STATUS: {},
+  OLI_KB_REFRESH: {},
+  OLI_KB_CLEAR_CACHE: {},
+};
+
+const TAB_FIELDS: Record<keyof TabMessages, Fields> = {
+  OLI_PING: {},
+  OLI_CAPTURE_ERROR_TEXT: {},
+  OLI_HIGHLIGHT_SNIPPET: { id: "string", text: "string" },
+  OLI_SHOW_MATCHES: { matches: "array" },
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+// First problem with a request's fields, or null.
+function checkFields(msg: Record<string, unknown>, fields: Fields): string | null {
+  for (const [key, spec] of Object.entries(fields)) {
+    const value = msg[key];
+    const optional = spec.endsWith("?");
+    if (value == null) {
+      if (optional) continue;
+      return `${key} is missing`;
+    }
+    const kind = optional ? spec.slice(0, -1) : spec;
+    const ok =
+      kind === "array"
+        ? Array.isArray(value)
+        : kind === "object"
+          ? isRecord(value)
+          : typeof value === kind;
+    if (!ok) return `${key} must be a ${kind}`;
+  }
+  return null;
+}
+
+function mismatch(theirs: unknown) {
+  const v = typeof theirs === "number" ? `version ${theirs}` : "an older version";
+  return `Message protocol mismatch: got ${v}, expected ${PROTOCOL_VERSION}. Reload the page or the extension.`;
+}
+
+/**
+ * One onMessage listener for every message a context answers. Other types are
+ * left alone; requests from another protocol version or with malformed fields
+ * get an error reply without reaching a handler.
+ */
+function createRouter<P extends Protocol>(fields: Record<keyof P, Fields>, handlers: Handlers<P>) {
+  return (msg: unknown, sender: Browser.runtime.MessageSender, sendResponse: (res: unknown) => void) => {
+    if (!isRecord(msg)) return;
+    const type = msg.type;
+    if (typeof type !== "string" || !Object.hasOwn(handlers, type)) return;
+
+    const reply = (res: object) => sendResponse({ ...res, protocol: PROTOCOL_VERSION });
+    if (msg.protocol !== PROTOCOL_VERSION) {
+      reply({ ok: false, error: mismatch(msg.protocol) });
+      return;
+    }
+    const problem = checkFields(msg, fields[type]);
+    if (problem) {
+      reply({ ok: false, error: `${type}: ${problem}` });
+      return;
+    }
+
+    // checkFields has vouched for the request's shape.
+    const handle = handlers[type] as (req: object, sender: Browser.runtime.MessageSender) => object | Promise<object>;
+    Promise.resolve()
+      .then(() => handle(msg, sender))
+      .then((res) => reply({ ...res, ok: true }))
+      .catch((e: unknown) => reply({ ok: false, error: String((e instanceof Error && e.message) || e) }));
+    // Keeps sendResponse valid until the handler settles.
+    return true;
+  };
+}
+
+export function backgroundRouter(handlers: Handlers<BackgroundMessages>) {
+  return createRouter(BACKGROUND_FIELDS, handlers);
+}
+
+export function tabRouter(handlers: Handlers<TabMessages>) {
+  return createRouter(TAB_FIELDS, handlers);
+}
+
+type Body<P extends Protocol, K extends keyof P> = NoBody extends P[K]["request"]
+  ? [body?: P[K]["request"]]
+  : [body: P[K]["request"]];
+
+// The reply without its envelope; throws the handler's error or a protocol mismatch.
+function unwrap<T>(res: unknown): T {
+  if (!isRecord(res) || typeof res.ok !== "boolean") throw new Error("No valid reply to the message.");
+  if (res.protocol !== PROTOCOL_VERSION) throw new Error(mismatch(res.protocol));
+  if (!res.ok) throw new Error(String(res.error || "Unknown error"));
+  const { ok: _ok, protocol: _protocol, ...body } = res;
+  return body as T;
+}
+
+export async function sendToBackground<K extends keyof BackgroundMessages>(
+  type: K,
+  ...[body]: Body<BackgroundMessages, K>
+): Promise<BackgroundMessages[K]["response"]> {
+  return unwrap(await browser.runtime.sendMessage({ ...body, type, protocol: PROTOCOL_VERSION }));
+}
+
+export async function sendToTab<K extends keyof TabMessages>(
+  tabId: number,
+  type: K,
+  ...[body]: Body<TabMessages, K>
+): Promise<TabMessages[K]["response"]> {
+  return unwrap(await browser.tabs.sendMessage(tabId, { ...body, type, protocol: PROTOCOL_VERSION }));
+}
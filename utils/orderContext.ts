@@ -0,0 +1,123 @@
+// Order facts read from the page by a capture profile. Anything the page
+// doesn't show is null.
+export type OrderContext = {
+  orderId: string | null;
+  merchant: string | null;
+  postalCode: string | null;
+  city: string | null;
+  paymentType: string | null;
+  cod: boolean | null;
+  poBox: boolean | null;
+  weightKg: number | null;
+  dimensions: string | null;
+  // Longest side of `dimensions`.
+  lengthCm: number | null;
+  quantity: number | null;
+};
+
+// Raw text of the profile's context fields, before parsing.
+export type OrderFields = {
+  orderId?: string | null;
+  merchant?: string | null;
+  postalCode?: string | null;
+  city?: string | null;
+  address?: string | null;
+  paymentType?: string | null;
+  weight?: string | null;
+  dimensions?: string | null;
+  quantity?: string | null;
+};
+
+export const EMPTY_ORDER: OrderContext = {
+  orderId: null,
+  merchant: null,
+  postalCode: null,
+  city: null,
+  paymentType: null,
+  cod: null,
+  poBox: null,
+  weightKg: null,
+  dimensions: null,
+  lengthCm: null,
+  quantity: null,
+};
+
+// Cash on delivery, as shops and carriers write it.
+const COD = /\bcod\b|cash on delivery|nachnahme|contrassegno|contra ?reembolso|contre[- ]remboursement|pobranie|rembours/i;
+const PO_BOX = /\b(p\.? ?o\.? ?box|post office box|postfach|apartado|casella postale|boite postale|skrytka)\b/i;
+const UNITS: Record<string, number> = { kg: 1, g: 0.001, lb: 0.45359237, lbs: 0.45359237 };
+
+function text(x: string | null | undefined) {
+  const s = String(x ?? "").replace(/\s+/g, " ").trim();
+  return s || null;
+}
+
+function number(s: string) {
+  return Number(s.replace(/\s/g, "").replace(",", "."));
+}
+
+// "32,5 kg", "1200 g", "12 lbs"; kilograms when no unit is shown.
+export function parseWeightKg(raw: string | null | undefined): number | null {
+  const m = String(raw ?? "").match(/(\d+(?:[.,]\d+)?)\s*(kg|g|lbs?)?\b/i);
+  if (!m) return null;
+  const kg = number(m[1]) * UNITS[(m[2] || "kg").toLowerCase()];
+  return Number.isFinite(kg) ? Math.round(kg * 1000) / 1000 : null;
+}
+
+// "60 x 40 x 30 cm", "0.6x0.4x0.3 m"; centimetres when no unit is shown.
+export function parseLongestSideCm(raw: string | null | undefined): number | null {
+  const s = String(raw ?? "");
+  const sides = s.match(/\d+(?:[.,]\d+)?/g);
+  if (!sides) return null;
+  const unit = s.match(/(?<![a-z])(mm|cm|m)(?![a-z])/i)?.[1].toLowerCase() ?? "cm";
+  const cm = Math.max(...sides.map(number)) * (unit === "mm" ? 0.1 : unit === "m" ? 100 : 1);
+  return Number.isFinite(cm) ? Math.round(cm * 10) / 10 : null;
+}
+
+// "520", "Qty: 520 pcs".
+export function parseQuantity(raw: string | null | undefined): number | null {
+  const m = String(raw ?? "").match(/\d+/);
+  return m ? Number(m[0]) : null;
+}
+
+export function isCod(paymentType: string | null | undefined): boolean | null {
+  const p = text(paymentType);
+  return p ? COD.test(p) : null;
+}
+
+export function isPoBox(address: string | null | undefined): boolean | null {
+  const a = text(address);
+  return a ? PO_BOX.test(a) : null;
+}
+
+export function orderContextFrom(f: OrderFields): OrderContext {
+  return {
+    orderId: text(f.orderId),
+    merchant: text(f.merchant),
+    postalCode: text(f.postalCode),
+    city: text(f.city),
+    paymentType: text(f.paymentType),
+    cod: isCod(f.paymentType),
+    poBox: isPoBox(f.address),
+    weightKg: parseWeightKg(f.weight),
+    dimensions: text(f.dimensions),
+    lengthCm: parseLongestSideCm(f.dimensions),
+    quantity: parseQuantity(f.quantity),
+  };
+}
+
+// Only the facts that are known, e.g. "Order 1234 · 25020 Flero · COD · 32.5 kg".
+export function describeOrder(o: OrderContext | null | undefined) {
+  if (!o) return "";
+  const parts = [
+    o.orderId ? `Order ${o.orderId}` : "",
+    o.merchant ?? "",
+    [o.postalCode, o.city].filter(Boolean).join(" "),
+    o.cod ? "COD" : "",
+    o.poBox ? "PO Box" : "",
+    o.weightKg != null ? `${o.weightKg} kg` : "",
+    o.dimensions ?? "",
+    o.quantity != null ? `${o.quantity} pcs` : "",
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
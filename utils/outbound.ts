@@ -0,0 +1,172 @@
+import type { Settings } from "./settings";
+
+// The "Payload to DB" record built by the popup for each capture.
+export type OutboundPayload = {
+  error_text: string;
+  source: string;
+  url: string;
+  page_title: string;
+  timestamp: string;
+  // Page facts at capture time; missing on payloads queued by older versions.
+  fc?: string | null;
+  country?: string | null;
+  shipping_method?: string | null;
+  order?: OutboundOrder | null;
+};
+
+// OrderContext (utils/orderContext.ts) in the payload's snake_case.
+export type OutboundOrder = {
+  order_id: string | null;
+  merchant: string | null;
+  postal_code: string | null;
+  city: string | null;
+  payment_type: string | null;
+  cod: boolean | null;
+  po_box: boolean | null;
+  weight_kg: number | null;
+  dimensions: string | null;
+  quantity: number | null;
+};
+
+export type SinkKind = Settings["sink"];
+
+type QueuedRecord = {
+  id: string;
+  payload: OutboundPayload;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+};
+
+export type OutboundStatus = {
+  sink: SinkKind;
+  pending: number;
+  exported: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+};
+
+const QUEUE_KEY = "outbound_queue";
+const EXPORT_KEY = "outbound_export";
+const MAX_QUEUE = 1000;
+const MAX_BACKOFF_MINUTES = 60;
+// A webhook that hangs would hold the queue lock; past this it counts as a failed delivery.
+const WEBHOOK_TIMEOUT_MS = 15_000;
+// storage.local holds 10 MB in all; past this the file sink fails until the buffer is downloaded.
+const MAX_EXPORT_CHARS = 2_000_000;
+
+// A sink delivers one record or throws; the queue takes care of retries.
+type Sink = (payload: OutboundPayload, settings: Settings) => Promise<void>;
+
+const SINKS: Record<Exclude<SinkKind, "none">, Sink> = {
+  async webhook(payload, settings) {
+    if (!settings.webhookUrl) throw new Error("No webhook URL configured");
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (settings.webhookHeaderName && settings.webhookHeaderValue) {
+      headers[settings.webhookHeaderName] = settings.webhookHeaderValue;
+    }
+    const res = await fetch(settings.webhookUrl, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`Webhook answered HTTP ${res.status}`);
+  },
+
+  // Appends to an NDJSON buffer the options page downloads as a file.
+  async file(payload) {
+    const r = await browser.storage.local.get(EXPORT_KEY);
+    const lines = String(r?.[EXPORT_KEY] ?? "");
+    const line = JSON.stringify(payload) + "\n";
+    if (lines && lines.length + line.length > MAX_EXPORT_CHARS) {
+      throw new Error("The NDJSON buffer is full; download it from the options page");
+    }
+    await browser.storage.local.set({ [EXPORT_KEY]: lines + line });
+  },
+};
+
+async function loadQueue(): Promise<QueuedRecord[]> {
+  const r = await browser.storage.local.get(QUEUE_KEY);
+  return Array.isArray(r?.[QUEUE_KEY]) ? (r[QUEUE_KEY] as QueuedRecord[]) : [];
+}
+
+async function saveQueue(queue: QueuedRecord[]) {
+  await browser.storage.local.set({ [QUEUE_KEY]: queue });
+}
+
+// Queue reads and writes are serialised so enqueue and flush can't lose each other's updates.
+let lock: Promise<unknown> = Promise.resolve();
+function locked<T>(fn: () => Promise<T>): Promise<T> {
+  const next = lock.then(fn, fn);
+  lock = next.catch(() => {});
+  return next;
+}
+
+function backoffMs(attempts: number) {
+  return Math.min(MAX_BACKOFF_MINUTES, 2 ** (attempts - 1)) * 60_000;
+}
+
+export function enqueueOutbound(payload: OutboundPayload) {
+  return locked(async () => {
+    const queue = await loadQueue();
+    queue.push({ id: crypto.randomUUID(), payload, attempts: 0, nextAttemptAt: 0 });
+    await saveQueue(queue.slice(-MAX_QUEUE));
+  });
+}
+
+/**
+ * Deliver the records that are due, oldest first. The queue is saved after
+ * each one, so a service worker stopped mid-flush neither resends delivered
+ * records nor loses attempts. The first failure gets exponential backoff and
+ * ends the flush: the sink is likely down for the rest too. With no sink
+ * configured nothing is sent and the queue is kept.
+ */
+export function flushOutbound(settings: Settings, { force = false } = {}) {
+  return locked(async () => {
+    const queue = await loadQueue();
+    if (settings.sink === "none" || !queue.length) return;
+
+    const sink = SINKS[settings.sink];
+    const now = Date.now();
+    for (let i = 0; i < queue.length; ) {
+      const rec = queue[i];
+      if (!force && rec.nextAttemptAt > now) {
+        i++;
+        continue;
+      }
+      try {
+        await sink(rec.payload, settings);
+        queue.splice(i, 1);
+        await saveQueue(queue);
+      } catch (e: any) {
+        const attempts = rec.attempts + 1;
+        queue[i] = { ...rec, attempts, nextAttemptAt: Date.now() + backoffMs(attempts), lastError: String(e?.message || e) };
+        await saveQueue(queue);
+        return;
+      }
+    }
+  });
+}
+
+export async function outboundStatus(settings: Settings): Promise<OutboundStatus> {
+  const [queue, r] = await Promise.all([loadQueue(), browser.storage.local.get(EXPORT_KEY)]);
+  const failed = queue.filter((q) => q.lastError);
+  const next = failed.length ? Math.min(...failed.map((q) => q.nextAttemptAt)) : null;
+  return {
+    sink: settings.sink,
+    pending: queue.length,
+    exported: String(r?.[EXPORT_KEY] ?? "").split("\n").filter(Boolean).length,
+    lastError: failed.length ? failed[failed.length - 1].lastError ?? null : null,
+    nextAttemptAt: next ? new Date(next).toISOString() : null,
+  };
+}
+
+// Returns the NDJSON written by the file sink and empties the buffer.
+export function takeOutboundExport() {
+  return locked(async () => {
+    const r = await browser.storage.local.get(EXPORT_KEY);
+    await browser.storage.local.remove(EXPORT_KEY);
+    return String(r?.[EXPORT_KEY] ?? "");
+  });
+}
@@ -0,0 +1,53 @@
+// What the popup should do when it opens, set by the background for the
+// keyboard shortcut and the "Match this error with OLI" context menu item.
+export type PopupAction = {
+  type: "capture";
+  // Text selected when the context menu was used; searched for if the page can't be captured.
+  selectionText?: string;
+  at: number;
+};
+
+const ACTION_KEY = "popup_action";
+// An action the popup didn't open for (e.g. openPopup was refused) goes stale.
+const ACTION_TTL_MS = 60_000;
+
+/**
+ * Leave the action for the popup and open it. Resolves false where the browser
+ * refuses to open the popup (often, outside a click on the toolbar button); the
+ * action then waits for the next time it's opened by hand.
+ */
+export async function queuePopupAction(action: Omit<PopupAction, "at">) {
+  await browser.storage.session.set({ [ACTION_KEY]: { ...action, at: Date.now() } });
+  return browser.action.openPopup().then(
+    () => true,
+    (e) => {
+      console.warn("Could not open the popup:", e);
+      return false;
+    }
+  );
+}
+
+export async function takePopupAction(): Promise<PopupAction | null> {
+  const r = await browser.storage.session.get(ACTION_KEY);
+  const action = r?.[ACTION_KEY] as PopupAction | undefined;
+  if (!action) return null;
+  await browser.storage.session.remove(ACTION_KEY);
+  return Date.now() - Number(action.at) < ACTION_TTL_MS ? action : null;
+}
+
+// Badge text for a capture the background ran because the popup couldn't be opened.
+const FLAG_TEXT = "!";
+
+// Shows a capture's outcome on the toolbar button: "!" on the badge, the message on hover.
+export async function flagTab(tabId: number, title: string) {
+  await browser.action.setBadgeText({ tabId, text: FLAG_TEXT });
+  await browser.action.setBadgeBackgroundColor({ tabId, color: "#d93025" });
+  await browser.action.setTitle({ tabId, title });
+}
+
+// Undoes flagTab once the popup is open; an automatic-detection count is left alone.
+export async function clearTabFlag(tabId: number) {
+  if ((await browser.action.getBadgeText({ tabId })) !== FLAG_TEXT) return;
+  await browser.action.setBadgeText({ tabId, text: "" });
+  await browser.action.setTitle({ tabId, title: browser.runtime.getManifest().action?.default_title ?? "" });
+}
@@ -0,0 +1,216 @@
+// How to read one field of the page context: the text of the first element
+// matching `selector`, or else the first non-empty line below one of `labels`.
+// `regex` then narrows it to its first group (or the whole match); a value it
+// doesn't match is kept as is.
+export type FieldExtractor = {
+  selector?: string;
+  labels?: string[];
+  regex?: string;
+};
+
+// Page facts a profile can read. fc, country and shippingMethod go to matching
+// as they are; the rest become the OrderContext (utils/orderContext.ts).
+export const CONTEXT_FIELDS = [
+  "fc",
+  "country",
+  "shippingMethod",
+  "orderId",
+  "merchant",
+  "postalCode",
+  "city",
+  "address",
+  "paymentType",
+  "weight",
+  "dimensions",
+  "quantity",
+] as const;
+
+export type ContextField = (typeof CONTEXT_FIELDS)[number];
+
+/**
+ * Where errors and order facts are on a site. `urlPatterns` are extension
+ * match patterns ("https://panel.example.com/*"); `errorLabels` are headings
+ * the error text sits under, like Hive's "ISSUE NOTE"; `errorSelectors` are
+ * alert and toast containers.
+ */
+export type CaptureProfile = {
+  id: string;
+  name: string;
+  urlPatterns: string[];
+  errorLabels?: string[];
+  errorSelectors?: string[];
+  context?: Partial<Record<ContextField, FieldExtractor>>;
+};
+
+export const DEFAULT_ERROR_SELECTORS = [
+  "[role='alert']",
+  "[aria-live='assertive']",
+  ".toast, .toaster, .notification, .alert",
+  ".error, .error-message, .error-banner, .error-summary",
+  "[data-testid*=error], [class*=error], [id*=error]",
+];
+
+// Hive FC order pages. The capture script is declared for this site in the manifest.
+export const HIVE_PROFILE: CaptureProfile = {
+  id: "hive",
+  name: "Hive FC",
+  urlPatterns: ["https://fc.hive.app/*"],
+  errorLabels: ["ISSUE NOTE"],
+  errorSelectors: DEFAULT_ERROR_SELECTORS,
+  context: {
+    fc: { labels: ["FULFILLMENT CENTER", "FULFILMENT CENTRE"], regex: "\\b([A-Z]{3}[0-9]{1,2})\\b" },
+    country: { labels: ["COUNTRY"] },
+    // Label in Hive FC: "Shipping contract method (by delivery rules)"
+    shippingMethod: { labels: ["SHIPPING CONTRACT METHOD (BY DELIVERY RULES)"] },
+    // Labels of Hive's order page; one the page doesn't show leaves the fact unknown.
+    orderId: { labels: ["ORDER ID", "ORDER NUMBER", "ORDER"], regex: "([\\w-]{4,})" },
+    merchant: { labels: ["MERCHANT", "SHOP", "SALES CHANNEL"] },
+    postalCode: { labels: ["POSTAL CODE", "POSTCODE", "ZIP CODE", "ZIP"] },
+    city: { labels: ["CITY"] },
+    address: { labels: ["ADDRESS", "STREET", "SHIPPING ADDRESS"] },
+    paymentType: { labels: ["PAYMENT METHOD", "PAYMENT TYPE", "PAYMENT"] },
+    weight: { labels: ["WEIGHT", "TOTAL WEIGHT", "PARCEL WEIGHT"] },
+    dimensions: { labels: ["DIMENSIONS", "PARCEL DIMENSIONS"] },
+    quantity: { labels: ["QUANTITY", "TOTAL QUANTITY", "ITEMS"] },
+  },
+};
+
+// Shipped in the default settings; runs once access to the panel is granted on the options page.
+export const SENDCLOUD_PROFILE: CaptureProfile = {
+  id: "sendcloud",
+  name: "Sendcloud panel",
+  urlPatterns: ["https://panel.sendcloud.sc/*"],
+  errorSelectors: ["[role='alert']", ".notification, .toast, .alert", ".error, .error-message, [class*=error]"],
+};
+
+// Used where no profile matches, e.g. a site whose profile was removed after the script was injected.
+const GENERIC_PROFILE: CaptureProfile = {
+  id: "generic",
+  name: "Generic",
+  urlPatterns: [],
+  errorSelectors: DEFAULT_ERROR_SELECTORS,
+};
+
+// https for any host; plain http only for local test pages, like the other optional host permissions.
+const PATTERN = /^(https|http):\/\/((?:\*\.)?[^/*:]+|\*)(\/.*)$/;
+
+function parsePattern(p: string) {
+  const m = PATTERN.exec(String(p || "").trim());
+  if (!m) return null;
+  const [, scheme, host, path] = m;
+  if (scheme === "http" && host !== "localhost" && host !== "127.0.0.1") return null;
+  return { scheme, host, path };
+}
+
+function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function isValidPattern(p: string) {
+  return !!parsePattern(p);
+}
+
+export function matchesUrl(pattern: string, url: string) {
+  const p = parsePattern(pattern);
+  if (!p) return false;
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return false;
+  }
+  if (u.protocol !== p.scheme + ":") return false;
+  if (p.host.startsWith("*.")) {
+    const base = p.host.slice(2);
+    if (u.hostname !== base && !u.hostname.endsWith("." + base)) return false;
+  } else if (p.host !== "*" && u.hostname !== p.host) {
+    return false;
+  }
+  const path = new RegExp("^" + p.path.split("*").map(escapeRegex).join(".*") + "$");
+  return path.test(u.pathname + u.search);
+}
+
+// Host permission a URL pattern needs, e.g. "https://panel.sendcloud.sc/*".
+export function patternOrigin(pattern: string) {
+  const p = parsePattern(pattern);
+  return p ? `${p.scheme}://${p.host}/*` : null;
+}
+
+export function profileOrigins(profiles: CaptureProfile[]) {
+  const out = new Set<string>();
+  for (const prof of profiles) {
+    for (const pattern of prof.urlPatterns) {
+      const origin = patternOrigin(pattern);
+      if (origin) out.add(origin);
+    }
+  }
+  return Array.from(out);
+}
+
+// Custom profiles first, so a site's built-in profile can be overridden.
+export function profileFor(url: string, custom: CaptureProfile[]): CaptureProfile {
+  return (
+    [...custom, HIVE_PROFILE].find((prof) => prof.urlPatterns.some((p) => matchesUrl(p, url))) ?? GENERIC_PROFILE
+  );
+}
+
+function strings(v: unknown) {
+  return Array.isArray(v) ? v.map((x) => String(x ?? "").trim()).filter(Boolean) : undefined;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function extractor(v: unknown): FieldExtractor | undefined {
+  if (!isRecord(v)) return undefined;
+  const out: FieldExtractor = {};
+  if (typeof v.selector === "string" && v.selector.trim()) out.selector = v.selector.trim();
+  const labels = strings(v.labels);
+  if (labels?.length) out.labels = labels.map((l) => l.toUpperCase());
+  if (typeof v.regex === "string" && v.regex) out.regex = v.regex;
+  return out.selector || out.labels ? out : undefined;
+}
+
+/**
+ * Profiles from settings or the options page editor. Drops profiles without an
+ * id or a valid URL pattern; throws with the offending profile when `strict`.
+ */
+export function normalizeProfiles(raw: unknown, strict = false): CaptureProfile[] {
+  if (!Array.isArray(raw)) {
+    if (strict) throw new Error("Capture profiles must be a JSON array.");
+    return [];
+  }
+  const out: CaptureProfile[] = [];
+  raw.forEach((item: unknown, i) => {
+    const p = isRecord(item) ? item : {};
+    const id = typeof p.id === "string" ? p.id.trim() : "";
+    const patterns = strings(p.urlPatterns) ?? [];
+    const bad = patterns.find((x) => !isValidPattern(x));
+    if (!id || !patterns.length || bad) {
+      if (strict) {
+        throw new Error(
+          bad
+            ? `Profile ${id || i + 1}: '${bad}' is not an https:// URL pattern.`
+            : `Profile ${i + 1} needs an id and at least one URL pattern.`
+        );
+      }
+      return;
+    }
+    const context: CaptureProfile["context"] = {};
+    const rawContext = isRecord(p.context) ? p.context : {};
+    for (const field of CONTEXT_FIELDS) {
+      const ex = extractor(rawContext[field]);
+      if (ex) context[field] = ex;
+    }
+    out.push({
+      id,
+      name: typeof p.name === "string" && p.name.trim() ? p.name.trim() : id,
+      urlPatterns: patterns,
+      errorLabels: strings(p.errorLabels)?.map((l) => l.toUpperCase()),
+      errorSelectors: strings(p.errorSelectors),
+      context,
+    });
+  });
+  return out;
+}
@@ -0,0 +1,177 @@
+import type { KBItem } from "./kb";
+import { canonicalize, detectLanguage, foldText, isStopWord, type Language } from "./language";
+
+/**
+ * In-memory retrieval over the KB: a BM25 inverted index over title, patterns,
+ * symptoms, root cause and fix steps (translations included), plus character
+ * trigrams of the titles and patterns for typo-tolerant matching. Each entry
+ * and each error is tokenized in its own language. Built once per KB and
+ * queried per error.
+ */
+export type KBIndex = {
+  items: KBItem[];
+  docs: { tf: Map<string, number>; len: number }[];
+  df: Map<string, number>;
+  postings: Map<string, number[]>;
+  avgLen: number;
+  // Title and each pattern are a trigram "unit" of their own.
+  units: { doc: number; size: number }[];
+  gramPostings: Map<string, number[]>;
+};
+
+// How much of what the entry says lines up with the error, all in 0..1.
+export type RetrievalHit = {
+  doc: number;
+  // BM25 relative to the error scored against itself.
+  lexical: number;
+  // Best trigram Dice similarity between the error and the title or a pattern.
+  ngram: number;
+  // Distinct error terms found in the entry, and whether one of them is rare in the KB.
+  shared: string[];
+  rare: boolean;
+};
+
+const FIELD_WEIGHTS = { title: 3, patterns: 2, symptoms: 1, rootCause: 1, fixSteps: 0.5 };
+const K1 = 1.2;
+const B = 0.75;
+// Terms in fewer than ~1 in 12 entries are distinctive enough on their own.
+const RARE_IDF = 2.5;
+const MIN_NGRAM = 0.3;
+
+// Terms of a text in its language: carrier wording mapped to the KB's English
+// terms, then split, with that language's and English stop words left out.
+export function terms(s: string, lang?: Language): string[] {
+  return (lang ? canonicalize(s, lang) : foldText(s))
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => (/^\d+$/.test(t) ? t.length >= 3 : t.length >= 3 && !isStopWord(t, lang)));
+}
+
+function trigrams(s: string) {
+  const t = " " + foldText(s).replace(/[^\p{L}\p{N}]+/gu, " ").trim() + " ";
+  const out = new Set<string>();
+  for (let i = 0; i + 3 <= t.length; i++) out.add(t.slice(i, i + 3));
+  return out;
+}
+
+function push<K>(map: Map<K, number[]>, key: K, value: number) {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+function idf(index: KBIndex, t: string) {
+  const n = index.docs.length;
+  const df = index.df.get(t) ?? 0;
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+}
+
+export function buildIndex(items: KBItem[]): KBIndex {
+  const index: KBIndex = {
+    items,
+    docs: [],
+    df: new Map(),
+    postings: new Map(),
+    avgLen: 0,
+    units: [],
+    gramPostings: new Map(),
+  };
+
+  items.forEach((it, doc) => {
+    const tf = new Map<string, number>();
+    const lang = detectLanguage([it.title, ...(it.patterns ?? [])].join("\n"));
+    const fields: [keyof typeof FIELD_WEIGHTS, string[], Language][] = [
+      ["title", [it.title], lang],
+      ["patterns", it.patterns ?? [], lang],
+      ["symptoms", it.symptoms ? [it.symptoms] : [], lang],
+      ["rootCause", it.rootCause ? [it.rootCause] : [], lang],
+      ["fixSteps", it.fixSteps ?? [], lang],
+    ];
+    for (const [code, t] of Object.entries(it.translations ?? {})) {
+      fields.push(["title", t.title ? [t.title] : [], code as Language], ["fixSteps", t.fixSteps ?? [], code as Language]);
+    }
+    let len = 0;
+    for (const [field, texts, textLang] of fields) {
+      for (const t of texts.flatMap((x) => terms(x, textLang))) {
+        tf.set(t, (tf.get(t) ?? 0) + FIELD_WEIGHTS[field]);
+        len += FIELD_WEIGHTS[field];
+      }
+    }
+    index.docs.push({ tf, len });
+    index.avgLen += len;
+    for (const t of tf.keys()) {
+      index.df.set(t, (index.df.get(t) ?? 0) + 1);
+      push(index.postings, t, doc);
+    }
+
+    const titles = Object.values(it.translations ?? {}).map((t) => t.title ?? "");
+    for (const text of [it.title, ...titles.filter(Boolean), ...(it.patterns ?? [])]) {
+      const grams = trigrams(text);
+      if (!grams.size) continue;
+      const unit = index.units.push({ doc, size: grams.size }) - 1;
+      for (const g of grams) push(index.gramPostings, g, unit);
+    }
+  });
+  index.avgLen = items.length ? index.avgLen / items.length : 0;
+  return index;
+}
+
+function bm25Term(idfT: number, tf: number, len: number, avgLen: number) {
+  return (idfT * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * len) / (avgLen || 1)));
+}
+
+/**
+ * Entries sharing evidence with the error: at least two distinct terms, one
+ * rare term, or a close trigram match. Everything else is left out. `lang` is
+ * the error's language; sub-errors pass the one of the whole note.
+ */
+export function search(index: KBIndex, text: string, lang: Language = detectLanguage(text)): RetrievalHit[] {
+  const qTerms = terms(text, lang);
+  const qtf = new Map<string, number>();
+  for (const t of qTerms) qtf.set(t, (qtf.get(t) ?? 0) + 1);
+
+  // The error scored as if it were an entry of its own is the best any entry can do.
+  let selfScore = 0;
+  const qIdf = new Map<string, number>();
+  for (const [t, n] of qtf) {
+    qIdf.set(t, idf(index, t));
+    selfScore += bm25Term(qIdf.get(t)!, n, qTerms.length, index.avgLen);
+  }
+
+  const hits = new Map<number, RetrievalHit>();
+  const hit = (doc: number) => {
+    let h = hits.get(doc);
+    if (!h) hits.set(doc, (h = { doc, lexical: 0, ngram: 0, shared: [], rare: false }));
+    return h;
+  };
+
+  for (const t of qtf.keys()) {
+    const idfT = qIdf.get(t)!;
+    for (const doc of index.postings.get(t) ?? []) {
+      const d = index.docs[doc];
+      const h = hit(doc);
+      h.lexical += bm25Term(idfT, d.tf.get(t)!, d.len, index.avgLen);
+      h.shared.push(t);
+      if (idfT >= RARE_IDF) h.rare = true;
+    }
+  }
+  for (const h of hits.values()) h.lexical = selfScore ? Math.min(1, h.lexical / selfScore) : 0;
+
+  const qGrams = trigrams(text);
+  if (qGrams.size) {
+    // Shared trigrams per unit; common trigrams are in most units, so this is counted in an array.
+    const common = new Uint32Array(index.units.length);
+    const seen: number[] = [];
+    for (const g of qGrams) {
+      for (const unit of index.gramPostings.get(g) ?? []) if (common[unit]++ === 0) seen.push(unit);
+    }
+    for (const unit of seen) {
+      const u = index.units[unit];
+      const dice = (2 * common[unit]) / (qGrams.size + u.size);
+      if (dice < MIN_NGRAM) continue;
+      const h = hit(u.doc);
+      h.ngram = Math.max(h.ngram, dice);
+    }
+  }
+
+  return Array.from(hits.values()).filter((h) => h.shared.length >= 2 || h.rare || h.ngram >= MIN_NGRAM);
+}
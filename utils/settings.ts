@@ -0,0 +1,108 @@
+import { LANGUAGES, type Language } from "./language";
+import { normalizeProfiles, SENDCLOUD_PROFILE, type CaptureProfile } from "./profiles";
+
+// User settings, edited on the options page and kept in browser.storage.sync,
+// except the webhook secret (see SECRET_KEY).
+export type Settings = {
+  kbUrl: string;
+  cacheTtlMinutes: number;
+  maxResults: number;
+  minScore: number;
+  fcBoost: number;
+  homeFc: string;
+  // Language to show titles and fix steps in, where the KB entry has it; English otherwise.
+  language: Language;
+  commonDestinations: string[];
+  autoDetect: boolean;
+  // Where capture payloads are delivered (see utils/outbound.ts).
+  sink: "none" | "webhook" | "file";
+  webhookUrl: string;
+  webhookHeaderName: string;
+  // Kept in browser.storage.local only.
+  webhookHeaderValue: string;
+  // Sites besides Hive FC to capture errors on (see utils/profiles.ts).
+  captureProfiles: CaptureProfile[];
+};
+
+const SINKS: Settings["sink"][] = ["none", "webhook", "file"];
+
+// The webhook auth header value stays on this device instead of syncing with the rest.
+const SECRET_KEY = "webhook_secret";
+
+export const DEFAULT_SETTINGS: Settings = {
+  kbUrl: import.meta.env.WXT_KB_URL ?? "https://abdullahsameer-hive.github.io/oli-error-assistant/errors.json",
+  cacheTtlMinutes: 30,
+  maxResults: 5,
+  minScore: 0,
+  fcBoost: 0.12,
+  homeFc: "",
+  language: "en",
+  commonDestinations: [
+    "united kingdom","uk","great britain","england",
+    "france","germany","italy","spain","poland","austria","netherlands","the netherlands","portugal"
+  ],
+  autoDetect: true,
+  sink: "none",
+  webhookUrl: "",
+  webhookHeaderName: "Authorization",
+  webhookHeaderValue: "",
+  captureProfiles: [SENDCLOUD_PROFILE],
+};
+
+function num(v: unknown, fallback: number, min: number, max: number) {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+}
+
+// Fill gaps with defaults and clamp anything out of range.
+export function normalizeSettings(raw: Partial<Settings> | null | undefined): Settings {
+  const r = raw ?? {};
+  const d = DEFAULT_SETTINGS;
+  return {
+    kbUrl: typeof r.kbUrl === "string" ? r.kbUrl.trim() : d.kbUrl,
+    cacheTtlMinutes: num(r.cacheTtlMinutes, d.cacheTtlMinutes, 1, 24 * 60),
+    maxResults: Math.round(num(r.maxResults, d.maxResults, 1, 20)),
+    minScore: num(r.minScore, d.minScore, 0, 1),
+    fcBoost: num(r.fcBoost, d.fcBoost, 0, 0.5),
+    homeFc: typeof r.homeFc === "string" ? r.homeFc.trim().toUpperCase() : d.homeFc,
+    language: LANGUAGES.includes(r.language as Language) ? (r.language as Language) : d.language,
+    commonDestinations: Array.isArray(r.commonDestinations)
+      ? r.commonDestinations.map((x) => String(x).trim().toLowerCase()).filter(Boolean)
+      : d.commonDestinations,
+    autoDetect: typeof r.autoDetect === "boolean" ? r.autoDetect : d.autoDetect,
+    sink: SINKS.includes(r.sink as Settings["sink"]) ? (r.sink as Settings["sink"]) : d.sink,
+    webhookUrl: typeof r.webhookUrl === "string" ? r.webhookUrl.trim() : d.webhookUrl,
+    webhookHeaderName: typeof r.webhookHeaderName === "string" ? r.webhookHeaderName.trim() : d.webhookHeaderName,
+    webhookHeaderValue: typeof r.webhookHeaderValue === "string" ? r.webhookHeaderValue.trim() : d.webhookHeaderValue,
+    captureProfiles: Array.isArray(r.captureProfiles) ? normalizeProfiles(r.captureProfiles) : d.captureProfiles,
+  };
+}
+
+export async function loadSettings(): Promise<Settings> {
+  const [r, local] = await Promise.all([browser.storage.sync.get("settings"), browser.storage.local.get(SECRET_KEY)]);
+  const raw = (r?.settings ?? {}) as Partial<Settings>;
+  // Older versions synced the secret; it's used until the next save moves it.
+  const secret = local?.[SECRET_KEY] ?? raw.webhookHeaderValue;
+  return normalizeSettings({ ...raw, webhookHeaderValue: secret as string | undefined });
+}
+
+export async function saveSettings(s: Partial<Settings>) {
+  const next = normalizeSettings({ ...(await loadSettings()), ...s });
+  await browser.storage.local.set({ [SECRET_KEY]: next.webhookHeaderValue });
+  await browser.storage.sync.set({ settings: { ...next, webhookHeaderValue: "" } });
+  return next;
+}
+
+export async function resetSettings() {
+  await Promise.all([browser.storage.sync.remove("settings"), browser.storage.local.remove(SECRET_KEY)]);
+  return DEFAULT_SETTINGS;
+}
+
+// Calls back with fresh settings whenever another page saves them.
+export function watchSettings(cb: (s: Settings) => void) {
+  browser.storage.onChanged.addListener((changes, area) => {
+    if ((area === "sync" && changes.settings) || (area === "local" && changes[SECRET_KEY])) {
+      loadSettings().then(cb).catch((e) => console.warn("Could not reload settings:", e));
+    }
+  });
+}
@@ -0,0 +1,251 @@
+import type { KBItem } from "./kb";
+import type { ScoredMatch } from "./matcher";
+
+// One failed order from the bulk triage list. line is 1-based, for pointing at problems.
+export type TriageRow = {
+  line: number;
+  orderId: string;
+  errorText: string;
+  fc: string | null;
+  country: string | null;
+  shippingMethod: string | null;
+};
+
+export type TriageOrder = TriageRow & { score: number };
+
+// Orders whose top match is the same KB entry, so one fix covers all of them.
+export type TriageCluster = {
+  item: KBItem;
+  orders: TriageOrder[];
+  meanScore: number;
+  minScore: number;
+};
+
+export type TriageResult = {
+  clusters: TriageCluster[];
+  unmatched: TriageRow[];
+};
+
+type Column = "orderId" | "errorText" | "fc" | "country" | "shippingMethod";
+
+// Columns when the list has no header row.
+const COLUMN_ORDER: Column[] = ["orderId", "errorText", "fc", "country", "shippingMethod"];
+
+// Header names each column is recognised by, compared without case, spaces or punctuation.
+const COLUMN_NAMES: Record<Column, string[]> = {
+  orderId: ["orderid", "order", "ordernumber", "orderno", "shipmentid"],
+  errorText: ["errortext", "error", "errormessage", "message", "issuenote"],
+  fc: ["fc", "warehouse", "fulfillmentcenter"],
+  country: ["country", "destinationcountry", "countrycode"],
+  shippingMethod: ["shippingmethod", "method", "carrier", "shipping"],
+};
+
+/**
+ * The first line's delimiter, counting only outside quoted cells: carrier
+ * errors often hold semicolons and commas of their own. A tab wins (lists
+ * pasted from a spreadsheet), then a semicolon if it outnumbers commas.
+ * parseTriageRows decides whether a comma or semicolon really splits columns.
+ */
+function detectDelimiter(src: string) {
+  const counts: Record<string, number> = { "\t": 0, ";": 0, ",": 0 };
+  let quoted = false;
+  for (const ch of src) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === "\n" || ch === "\r")) break;
+    else if (!quoted && ch in counts) counts[ch]++;
+  }
+  if (counts["\t"]) return "\t";
+  return counts[";"] > counts[","] ? ";" : ",";
+}
+
+/**
+ * Split CSV text into rows of cells: quoted cells may hold the delimiter,
+ * doubled quotes and line breaks. See detectDelimiter for the delimiter.
+ */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(src);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (src[i + 1] === '"') cell += src[++i];
+      else quoted = false;
+    } else if (ch === '"' && !cell.trim()) {
+      quoted = true;
+      cell = "";
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows;
+}
+
+/**
+ * Whether comma or semicolon rows without a header are columns rather than
+ * errors that happen to hold the delimiter: every row has the same number of
+ * cells, at least two, and starts with an order ID (no spaces).
+ */
+function looksTabular(table: string[][]) {
+  const rows = table.filter((cells) => cells.some((c) => c.trim()));
+  const width = rows[0]?.length ?? 0;
+  return width >= 2 && rows.every((cells) => cells.length === width && /^\S+$/.test(cells[0].trim()));
+}
+
+function headerKey(s: string) {
+  return s.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+// Column positions from a header row, or null when the row is data.
+function readHeader(cells: string[]): Partial<Record<Column, number>> | null {
+  const found: Partial<Record<Column, number>> = {};
+  cells.forEach((c, i) => {
+    const key = headerKey(c);
+    const col = COLUMN_ORDER.find((k) => COLUMN_NAMES[k].includes(key));
+    if (col && found[col] == null) found[col] = i;
+  });
+  return found.errorText != null ? found : null;
+}
+
+/**
+ * Orders from a pasted list or CSV of `order_id, error_text[, fc, country,
+ * shipping_method]`. A header row may name the columns in any order; without
+ * one they're taken in that order, and a single column is the error text.
+ * A list of raw errors is one error per line even if they hold commas (see
+ * looksTabular). Rows without an error are reported in `problems` instead.
+ */
+export function parseTriageRows(text: string): { rows: TriageRow[]; problems: string[] } {
+  let table = parseCsv(text);
+  const header = table.length ? readHeader(table[0]) : null;
+  if (!header && detectDelimiter(text) !== "\t" && !looksTabular(table)) {
+    table = text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/).map((line) => [line]);
+  }
+  const body = header ? table.slice(1) : table;
+  const firstLine = header ? 2 : 1;
+
+  const rows: TriageRow[] = [];
+  const problems: string[] = [];
+  body.forEach((cells, i) => {
+    const line = firstLine + i;
+    const values = cells.map((c) => c.replace(/\s+/g, " ").trim());
+    if (!values.some(Boolean)) return;
+
+    let at: Partial<Record<Column, number>>;
+    if (header) at = header;
+    else if (values.length === 1) at = { errorText: 0 };
+    else at = Object.fromEntries(COLUMN_ORDER.map((col, n) => [col, n]));
+    const get = (col: Column) => (at[col] != null ? values[at[col]!] || "" : "");
+
+    const errorText = get("errorText");
+    if (!errorText) {
+      problems.push(`Line ${line}: no error text`);
+      return;
+    }
+    rows.push({
+      line,
+      orderId: get("orderId"),
+      errorText,
+      fc: get("fc") || null,
+      country: get("country") || null,
+      shippingMethod: get("shippingMethod") || null,
+    });
+  });
+  return { rows, problems };
+}
+
+/**
+ * Group orders by their top KB entry, biggest group first and ties by mean
+ * score. Rows with no match, or a top match under minScore, are unmatched.
+ */
+export function groupTriage(rows: TriageRow[], matches: ScoredMatch[][], minScore = 0): TriageResult {
+  const byId = new Map<string, TriageCluster>();
+  const unmatched: TriageRow[] = [];
+
+  rows.forEach((row, i) => {
+    const top = matches[i]?.[0];
+    if (!top || top.score < minScore) {
+      unmatched.push(row);
+      return;
+    }
+    let cluster = byId.get(top.item.id);
+    if (!cluster) byId.set(top.item.id, (cluster = { item: top.item, orders: [], meanScore: 0, minScore: 1 }));
+    cluster.orders.push({ ...row, score: top.score });
+  });
+
+  const clusters = Array.from(byId.values());
+  for (const c of clusters) {
+    const scores = c.orders.map((o) => o.score);
+    c.meanScore = scores.reduce((n, s) => n + s, 0) / scores.length;
+    c.minScore = Math.min(...scores);
+    c.orders.sort((a, b) => b.score - a.score);
+  }
+  clusters.sort((a, b) => b.orders.length - a.orders.length || b.meanScore - a.meanScore);
+  return { clusters, unmatched };
+}
+
+function csvCell(value: string | number | null) {
+  const s = value == null ? "" : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+const CSV_HEADER = ["cluster", "kb_id", "kb_title", "score", "order_id", "error_text", "fc", "country", "shipping_method", "fix_steps"];
+
+// One line per order, clusters in order and the unmatched rows last with an empty cluster.
+export function triageCsv(result: TriageResult) {
+  const line = (cells: (string | number | null)[]) => cells.map(csvCell).join(",");
+  const lines = [line(CSV_HEADER)];
+  result.clusters.forEach((c, n) => {
+    const steps = c.item.fixSteps.map((s, i) => `${i + 1}. ${s}`).join("\n");
+    for (const o of c.orders) {
+      lines.push(
+        line([n + 1, c.item.id, c.item.title, o.score.toFixed(2), o.orderId, o.errorText, o.fc, o.country, o.shippingMethod, steps])
+      );
+    }
+  });
+  for (const r of result.unmatched) {
+    lines.push(line(["", "", "", "", r.orderId, r.errorText, r.fc, r.country, r.shippingMethod, ""]));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function triageJson(result: TriageResult, kbVersion?: string) {
+  const order = (r: TriageRow) => ({
+    orderId: r.orderId,
+    errorText: r.errorText,
+    fc: r.fc,
+    country: r.country,
+    shippingMethod: r.shippingMethod,
+  });
+  return JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      kbVersion: kbVersion ?? null,
+      clusters: result.clusters.map((c) => ({
+        kbId: c.item.id,
+        title: c.item.title,
+        fixSteps: c.item.fixSteps,
+        links: c.item.links ?? [],
+        meanScore: Number(c.meanScore.toFixed(2)),
+        minScore: Number(c.minScore.toFixed(2)),
+        orders: c.orders.map((o) => ({ ...order(o), score: Number(o.score.toFixed(2)) })),
+      })),
+      unmatched: result.unmatched.map(order),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,114 @@
+import { sameCountry } from "./countries";
+import type { KBWhen } from "./kb";
+
+// Order facts a `when:` block can be checked against. Missing facts are unknown.
+export type WhenFacts = {
+  country?: string | null;
+  fc?: string | null;
+  carrier?: string | null;
+  shippingMethod?: string | null;
+  fieldPath?: string | null;
+  postalCode?: string | null;
+  merchant?: string | null;
+  cod?: boolean | null;
+  poBox?: boolean | null;
+  weightKg?: number | null;
+  quantity?: number | null;
+};
+
+// "match": every condition holds. "mismatch": a known fact breaks one.
+// "unknown": nothing broke, but some facts were missing.
+export type WhenResult = {
+  status: "match" | "mismatch" | "unknown";
+  matched: (keyof KBWhen)[];
+};
+
+function lc(x: unknown) {
+  return String(x ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+export function fieldKey(fieldPath: string | null | undefined) {
+  return fieldPath ? fieldPath.toLowerCase().replace(/\[\d+\]/g, "") : "";
+}
+
+// "9000-9399" or "25020"; bounds compare against the same number of leading digits.
+export function inPostalRange(postalCode: string, range: string) {
+  const digits = postalCode.replace(/\D/g, "");
+  const [from, to = from] = range.split("-").map((x) => x.trim());
+  if (!digits || digits.length < from.length) return false;
+  const head = Number(digits.slice(0, from.length));
+  return head >= Number(from) && head <= Number(to);
+}
+
+function test(key: keyof KBWhen, values: string[], facts: WhenFacts): boolean | null {
+  switch (key) {
+    case "country": {
+      const c = lc(facts.country);
+      return c ? values.some((v) => sameCountry(c, v)) : null;
+    }
+    case "fc": {
+      const f = lc(facts.fc);
+      return f ? values.some((v) => f === lc(v)) : null;
+    }
+    case "carrier": {
+      const c = lc(facts.carrier);
+      return c ? values.some((v) => c === lc(v)) : null;
+    }
+    case "shippingMethod": {
+      const m = lc(facts.shippingMethod);
+      return m ? values.some((v) => m.includes(lc(v))) : null;
+    }
+    case "fieldPath": {
+      const f = fieldKey(facts.fieldPath);
+      return f ? values.some((v) => f === fieldKey(v)) : null;
+    }
+    case "merchant": {
+      const m = lc(facts.merchant);
+      return m ? values.some((v) => m.includes(lc(v))) : null;
+    }
+    case "postalCodeRange": {
+      const p = String(facts.postalCode ?? "").trim();
+      return p ? values.some((v) => inPostalRange(p, v)) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// A `true` flag needs the fact to hold; `false` doesn't constrain anything.
+function flag(want: boolean | undefined, fact: boolean | null | undefined) {
+  return !want ? true : fact == null ? null : fact === true;
+}
+
+function over(limit: number | undefined, fact: number | null | undefined) {
+  return limit == null ? true : fact == null ? null : fact > limit;
+}
+
+export function evaluateWhen(when: KBWhen | undefined, facts: WhenFacts): WhenResult {
+  const matched: (keyof KBWhen)[] = [];
+  if (!when) return { status: "unknown", matched };
+
+  let unknown = false;
+  for (const key of Object.keys(when) as (keyof KBWhen)[]) {
+    let ok: boolean | null;
+    if (key === "codOnly") {
+      ok = flag(when.codOnly, facts.cod);
+    } else if (key === "poBoxOnly") {
+      ok = flag(when.poBoxOnly, facts.poBox);
+    } else if (key === "weightOverKg") {
+      ok = over(when.weightOverKg, facts.weightKg);
+    } else if (key === "quantityOver") {
+      ok = over(when.quantityOver, facts.quantity);
+    } else {
+      const values = when[key] as string[] | undefined;
+      if (!values?.length) continue;
+      ok = test(key, values, facts);
+    }
+
+    if (ok === false) return { status: "mismatch", matched };
+    if (ok === null) unknown = true;
+    else matched.push(key);
+  }
+
+  return { status: unknown ? "unknown" : "match", matched };
+}
@@ -0,0 +1,69 @@
+// Minimal zip writer for exports: stored (uncompressed) entries, UTF-8 names.
+export type ZipFile = { name: string; text: string };
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array) {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields of a zip header.
+function dosDateTime(d: Date) {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+function header(fields: [number, 2 | 4][]) {
+  const size = fields.reduce((n, [, len]) => n + len, 0);
+  const view = new DataView(new ArrayBuffer(size));
+  let at = 0;
+  for (const [value, len] of fields) {
+    if (len === 2) view.setUint16(at, value, true);
+    else view.setUint32(at, value, true);
+    at += len;
+  }
+  return new Uint8Array(view.buffer);
+}
+
+export function zipFiles(files: ZipFile[], now = new Date()): Blob {
+  const enc = new TextEncoder();
+  const { time, date } = dosDateTime(now);
+  const UTF8_NAMES = 0x0800;
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const f of files) {
+    const name = enc.encode(f.name);
+    const data = enc.encode(f.text);
+    const crc = crc32(data);
+    const local = header([
+      [0x04034b50, 4], [20, 2], [UTF8_NAMES, 2], [0, 2], [time, 2], [date, 2],
+      [crc, 4], [data.length, 4], [data.length, 4], [name.length, 2], [0, 2],
+    ]);
+    parts.push(local, name, data);
+    central.push(
+      header([
+        [0x02014b50, 4], [20, 2], [20, 2], [UTF8_NAMES, 2], [0, 2], [time, 2], [date, 2],
+        [crc, 4], [data.length, 4], [data.length, 4], [name.length, 2], [0, 2], [0, 2],
+        [0, 2], [0, 2], [0, 4], [offset, 4],
+      ]),
+      name
+    );
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((n, p) => n + p.length, 0);
+  const end = header([
+    [0x06054b50, 4], [0, 2], [0, 2], [files.length, 2], [files.length, 2], [centralSize, 4], [offset, 4], [0, 2],
+  ]);
+  return new Blob([...parts, ...central, end] as BlobPart[], { type: "application/zip" });
+}
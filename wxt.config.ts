@@ -4,7 +4,20 @@ export default defineConfig({
   manifest: {
     name: "OLI Error Assistant",
     description: "Captures error messages from pages and suggests known fixes.",
-    permissions: ["activeTab", "storage"],
-    host_permissions: ["https://fc.hive.app/*"],
+    permissions: ["activeTab", "storage", "alarms", "scripting", "contextMenus"],
+    host_permissions: ["https://fc.hive.app/*", "https://abdullahsameer-hive.github.io/*"],
+    // Requested at runtime from the options page for a custom KB URL, webhook or capture profile site.
+    optional_host_permissions: ["https://*/*", "http://localhost/*", "http://127.0.0.1/*"],
+    // Users can change the keys at chrome://extensions/shortcuts.
+    commands: {
+      _execute_action: {
+        suggested_key: { default: "Alt+Shift+O" },
+        description: "Open OLI Error Assistant",
+      },
+      "capture-and-match": {
+        suggested_key: { default: "Alt+Shift+M" },
+        description: "Capture and match the error on the current tab",
+      },
+    },
   },
 });